@@ -9,11 +9,35 @@ export const config: Config = {
     password: process.env.DB_PASSWORD || '',
   },
   embedding: {
-    model: 'text-embedding-004',
-    version: 'v1',
+    // Stored as version:provider:model (see getEmbeddingVersion) - bump it when the dimensions or the
+    // provider's embedding code change; products with another stored version are re-embedded
+    provider: 'local',
+    model: 'local-ngram-projection',
+    version: 'v2',
     dimensions: 768,
+    // After failure_threshold failed calls in a row, precompute embeds with the fallback provider for
+    // cooldown_ms (its vectors are stored under their own version and re-embedded in the background)
+    fallback_provider: 'local',
+    circuit_breaker: {
+      failure_threshold: 5,
+      cooldown_ms: 60000,
+    },
+  },
+  http: {
+    // Every LLM / embedding API request: each attempt is aborted after timeout_ms; timeouts, network errors,
+    // 429 and 5xx are retried max_retries times after base_delay_ms x 2^n (jittered, capped, Retry-After wins)
+    timeout_ms: 60000,
+    max_retries: 3,
+    base_delay_ms: 1000,
+    max_delay_ms: 30000,
+  },
+  llm_batches: {
+    // Precompute tagging + embedding: products per LLM request, and requests in flight at once
+    batch_size: 50,
+    concurrency: 4,
   },
   ranking: {
+    default_mode: 'llm',
     weights: {
       embedding_similarity: 0.45,
       purchase_score: 0.25,
@@ -21,6 +45,93 @@ export const config: Config = {
       price_similarity: 0.10,
     },
   },
+  events: {
+    // purchase_score = decayed, weighted event counts normalised per shop
+    weights: {
+      view: 1,
+      add_to_cart: 3,
+      purchase: 10,
+    },
+    half_life_days: 14,
+    lookback_days: 90,
+  },
+  copurchase: {
+    // Pairs bought together in fewer baskets, or no more often than chance (lift), are dropped
+    min_co_count: 2,
+    min_support: 0.001,
+    min_lift: 1.0,
+    max_neighbors: 20,
+    lookback_days: 180,
+    candidate_limit: 30,
+  },
+  recommendation_lists: {
+    // Per-product top-N lists built by precompute and served by default; 'llm' / 'hybrid' rank them with the LLM
+    ranking_mode: 'weighted',
+    batch_size: 5, // products ranked concurrently - each holds a pool connection
+  },
+  cache: {
+    // Recommendation responses: in-process LRU, plus a Postgres tier shared by all instances when
+    // shared_tier is 'postgres' (or RECOMMENDATION_CACHE_SHARED_TIER=postgres). RECOMMENDATION_CACHE=off disables it
+    enabled: true,
+    max_entries: 1000,
+    ttl_seconds: 300,
+    shared_tier: 'none',
+  },
+  tag_graph: {
+    // Tags related per LLM request
+    chunk_size: 150,
+    // Possible related tags listed per request: the chunk plus the tags most co-purchased with it, sharing a
+    // word with it, or most used - so the prompt stays bounded however many tags the shop has
+    max_vocabulary: 500,
+    max_tokens_per_chunk: 16000,
+    // Share of tags that must end up with edges; below it the job fails or the previous graph is kept
+    min_coverage: 0.8,
+    on_low_coverage: 'keep_previous',
+  },
+  llm: {
+    // Override per stage with LLM_PROVIDER_<STAGE>, or for all stages with LLM_PROVIDER
+    providers: {
+      product_tagging: 'grid',
+      tag_graph: 'grid',
+      ranking: 'auto',
+    },
+    models: {
+      product_tagging: 'gemini-2.5-flash',
+      tag_graph: 'gemini-2.5-flash',
+      ranking: 'gemini-2.5-flash-lite',
+    },
+    // Replies are validated per item; items missing or invalid are asked for again this many times
+    repair_attempts: 1,
+  },
+  rules: {
+    // Score change of a boost / bury rule created without a weight (scores range 0-1)
+    default_weight: 0.2,
+  },
+  diversity: {
+    // MMR re-ranking: each pick maximises lambda x relevance - (1 - lambda) x similarity to the products
+    // already picked (1 = relevance only). Picks come from the top pool_size ranked products (the LLM is
+    // asked for that many); caps are hard limits per vendor, primary tag and title stem (0 = no cap)
+    enabled: true,
+    lambda: 0.7,
+    pool_size: 20,
+    max_per_vendor: 3,
+    max_per_tag: 5,
+    max_per_title_stem: 1,
+  },
+  pricing: {
+    // Upsell: same product type (category), priced min_ratio-max_ratio x the source and never cheaper;
+    // price_similarity peaks at target_ratio x the source price
+    upsell: {
+      min_ratio: 1.1,
+      max_ratio: 2.0,
+      target_ratio: 1.3,
+      same_category: true,
+    },
+    // Crosssell: priced at most max_cart_ratio x the cart value (sum of the source products)
+    crosssell: {
+      max_cart_ratio: 1.0,
+    },
+  },
   limits: {
     candidate_pool_size: 70,
     similarity_top_k: 20,
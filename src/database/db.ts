@@ -13,11 +13,11 @@ export async function initializeDatabase() {
     // Create products table
     await client.query(`
       CREATE TABLE IF NOT EXISTS products (
-        id BIGINT PRIMARY KEY,
+        id BIGINT NOT NULL,
         shop_id TEXT NOT NULL,
         title TEXT NOT NULL,
         category TEXT,
-        tags TEXT,
+        tags TEXT[],
         weight NUMERIC,
         vendor TEXT,
         price NUMERIC NOT NULL,
@@ -28,30 +28,299 @@ export async function initializeDatabase() {
         purchase_score FLOAT DEFAULT 0.0,
         embedding FLOAT[],
         embedding_version TEXT,
+        description TEXT,
+        content_hash TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (shop_id, id)
       );
     `);
 
-    // Create index on shop_id and tags
+    // Migrations for tables created by earlier versions
+    await client.query(`
+      ALTER TABLE products
+        ADD COLUMN IF NOT EXISTS description TEXT,
+        ADD COLUMN IF NOT EXISTS content_hash TEXT;
+    `);
+    // Single-tenant products were keyed by id alone - re-key on (shop_id, id)
+    await client.query(`
+      DO $$
+      DECLARE pk RECORD;
+      BEGIN
+        SELECT conname, array_length(conkey, 1) AS key_count INTO pk
+        FROM pg_constraint
+        WHERE conrelid = 'products'::regclass AND contype = 'p';
+
+        IF pk.conname IS NOT NULL AND pk.key_count = 1 THEN
+          EXECUTE format('ALTER TABLE products DROP CONSTRAINT %I', pk.conname);
+          ALTER TABLE products ADD PRIMARY KEY (shop_id, id);
+        END IF;
+      END $$;
+    `);
+
+    // Products stored a single TEXT tag - convert to TEXT[] and clear content_hash so the next
+    // precompute re-tags every product with the full tag set
+    await client.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'products' AND column_name = 'tags' AND data_type = 'text'
+        ) THEN
+          DROP INDEX IF EXISTS idx_products_tags;
+          ALTER TABLE products ALTER COLUMN tags TYPE TEXT[]
+            USING CASE WHEN tags IS NULL THEN NULL ELSE ARRAY[tags] END;
+          UPDATE products SET content_hash = NULL;
+        END IF;
+      END $$;
+    `);
+
+    // Create index on shop_id and tags (GIN for tag-overlap queries)
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_products_shop_id ON products(shop_id);
     `);
     await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_products_tags ON products(tags);
+      CREATE INDEX IF NOT EXISTS idx_products_tags ON products USING GIN (tags);
     `);
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
     `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_products_embedding_version ON products(embedding_version);
+    `);
 
-    // Create tag_graph table - children is now TEXT[] instead of JSONB
+    // Create tag_graph table - one graph per shop; edges is a JSONB array of { tag, relation, weight }
     await client.query(`
       CREATE TABLE IF NOT EXISTS tag_graph (
-        tag_name TEXT PRIMARY KEY,
+        shop_id TEXT NOT NULL,
+        tag_name TEXT NOT NULL,
         children TEXT[] NOT NULL,
+        edges JSONB NOT NULL DEFAULT '[]'::jsonb,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (shop_id, tag_name)
+      );
+    `);
+    // Single-tenant tag graph was shared by every shop - copy it to each shop with products
+    await client.query(`
+      ALTER TABLE tag_graph ADD COLUMN IF NOT EXISTS shop_id TEXT;
+    `);
+    await client.query(`
+      DO $$
+      DECLARE pk RECORD;
+      BEGIN
+        SELECT conname, array_length(conkey, 1) AS key_count INTO pk
+        FROM pg_constraint
+        WHERE conrelid = 'tag_graph'::regclass AND contype = 'p';
+
+        IF pk.conname IS NOT NULL AND pk.key_count = 1 THEN
+          EXECUTE format('ALTER TABLE tag_graph DROP CONSTRAINT %I', pk.conname);
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM tag_graph WHERE shop_id IS NULL) THEN
+          INSERT INTO tag_graph (shop_id, tag_name, children, updated_at)
+          SELECT shops.shop_id, legacy.tag_name, legacy.children, legacy.updated_at
+          FROM tag_graph legacy
+          CROSS JOIN (SELECT DISTINCT shop_id FROM products) shops
+          WHERE legacy.shop_id IS NULL;
+
+          DELETE FROM tag_graph WHERE shop_id IS NULL;
+        END IF;
+
+        IF pk.conname IS NULL OR pk.key_count = 1 THEN
+          ALTER TABLE tag_graph ALTER COLUMN shop_id SET NOT NULL;
+          ALTER TABLE tag_graph ADD PRIMARY KEY (shop_id, tag_name);
+        END IF;
+      END $$;
+    `);
+    // Untyped graphs only held complementary tags - keep serving them as complement edges until the next rebuild
+    await client.query(`
+      ALTER TABLE tag_graph ADD COLUMN IF NOT EXISTS edges JSONB NOT NULL DEFAULT '[]'::jsonb;
+    `);
+    await client.query(`
+      UPDATE tag_graph
+      SET edges = (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('tag', child, 'relation', 'complement', 'weight', 0.5)), '[]'::jsonb)
+        FROM unnest(children) AS child
+      )
+      WHERE edges = '[]'::jsonb AND cardinality(children) > 0;
+    `);
+
+    // Create catalog_products table - each shop's uploaded catalog, read by precompute
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS catalog_products (
+        shop_id TEXT NOT NULL,
+        id BIGINT NOT NULL,
+        data JSONB NOT NULL,
+        source_format TEXT,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (shop_id, id)
+      );
+    `);
+
+    // Create events table - storefront behaviour feeding purchase_score
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS events (
+        id BIGSERIAL PRIMARY KEY,
+        shop_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        product_id BIGINT NOT NULL,
+        variant_id BIGINT,
+        session_id TEXT NOT NULL,
+        order_id TEXT,
+        quantity INT DEFAULT 1,
+        occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS order_id TEXT;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_events_shop_product ON events(shop_id, product_id, occurred_at);
+    `);
+
+    // Create product_copurchase table - item-to-item "bought together" graph built by precompute
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS product_copurchase (
+        shop_id TEXT NOT NULL,
+        product_id BIGINT NOT NULL,
+        related_product_id BIGINT NOT NULL,
+        co_count INT NOT NULL,
+        support FLOAT NOT NULL,
+        confidence FLOAT NOT NULL,
+        lift FLOAT NOT NULL,
+        jaccard FLOAT NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (shop_id, product_id, related_product_id)
+      );
+    `);
+
+    // Create product_recommendations table - per-product top-N lists built by precompute
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS product_recommendations (
+        shop_id TEXT NOT NULL,
+        product_id BIGINT NOT NULL,
+        recommendation_type TEXT NOT NULL,
+        ranking_mode TEXT NOT NULL,
+        items JSONB NOT NULL,
+        computed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (shop_id, product_id, recommendation_type)
+      );
+    `);
+
+    await client.query(`
+      ALTER TABLE product_recommendations ADD COLUMN IF NOT EXISTS applied_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+    `);
+
+    // Create merchandising_rules table - merchant pins, exclusions, boosts / buries and blocked crosssell pairs
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS merchandising_rules (
+        id SERIAL PRIMARY KEY,
+        shop_id TEXT NOT NULL,
+        rule_type TEXT NOT NULL,
+        recommendation_type TEXT,
+        source_product_id BIGINT,
+        source_category TEXT,
+        target_type TEXT NOT NULL,
+        target_values TEXT[] NOT NULL,
+        weight FLOAT NOT NULL DEFAULT 0.2,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_merchandising_rules_shop ON merchandising_rules(shop_id);
+    `);
+
+    // Create experiment tables - A/B experiments, stable subject → arm assignments, and served recommendations
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS experiments (
+        id SERIAL PRIMARY KEY,
+        shop_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running',
+        arms JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS experiment_assignments (
+        experiment_id INT NOT NULL,
+        subject_id TEXT NOT NULL,
+        arm TEXT NOT NULL,
+        assigned_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (experiment_id, subject_id)
+      );
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS experiment_exposures (
+        id BIGSERIAL PRIMARY KEY,
+        experiment_id INT NOT NULL,
+        arm TEXT NOT NULL,
+        subject_id TEXT NOT NULL,
+        session_id TEXT,
+        product_ids BIGINT[] NOT NULL,
+        served_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_experiment_exposures_experiment ON experiment_exposures(experiment_id, arm);
+    `);
+
+    // Create recommendation tracking tables - every served response with its items, and storefront feedback on them
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recommendation_responses (
+        recommendation_id UUID PRIMARY KEY,
+        shop_id TEXT NOT NULL,
+        product_ids BIGINT[] NOT NULL,
+        ranking_mode TEXT NOT NULL,
+        served_by TEXT NOT NULL,
+        experiment_id INT,
+        experiment_arm TEXT,
+        items JSONB NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recommendation_events (
+        id BIGSERIAL PRIMARY KEY,
+        recommendation_id UUID NOT NULL,
+        shop_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        product_id BIGINT NOT NULL,
+        recommendation_type TEXT NOT NULL,
+        position INT NOT NULL,
+        channel TEXT NOT NULL,
+        quantity INT NOT NULL DEFAULT 1,
+        revenue NUMERIC NOT NULL DEFAULT 0,
+        order_id TEXT,
+        occurred_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_recommendation_events_shop ON recommendation_events(shop_id, occurred_at);
+    `);
+
+    // Create recommendation_cache / cache_generations tables - shared response cache tier (config.cache.shared_tier)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recommendation_cache (
+        shop_id TEXT NOT NULL,
+        cache_key TEXT NOT NULL,
+        generation BIGINT NOT NULL,
+        response JSONB NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (shop_id, cache_key)
+      );
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS cache_generations (
+        shop_id TEXT PRIMARY KEY,
+        generation BIGINT NOT NULL DEFAULT 0
+      );
+    `);
 
     // Create process_tracker table
     await client.query(`
@@ -60,11 +329,27 @@ export async function initializeDatabase() {
         shop_id TEXT NOT NULL,
         status TEXT NOT NULL,
         product_count INT DEFAULT 0,
+        force_rebuild BOOLEAN DEFAULT FALSE,
+        steps JSONB DEFAULT '{}'::jsonb,
+        error_message TEXT,
+        cancel_requested BOOLEAN DEFAULT FALSE,
+        tag_set_hash TEXT,
         started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         completed_at TIMESTAMP,
         last_run TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
+    await client.query(`
+      ALTER TABLE process_tracker
+        ADD COLUMN IF NOT EXISTS force_rebuild BOOLEAN DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS steps JSONB DEFAULT '{}'::jsonb,
+        ADD COLUMN IF NOT EXISTS error_message TEXT,
+        ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS tag_set_hash TEXT;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_process_tracker_shop_id ON process_tracker(shop_id, started_at DESC);
+    `);
 
     console.log('✅ Database initialized successfully');
   } catch (error) {
@@ -0,0 +1,127 @@
+import dotenv from 'dotenv';
+import { readFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { initializeDatabase, closeDatabase } from './database/db.js';
+import {
+    EvaluationInputError,
+    loadHeldOutBaskets,
+    parseBaskets,
+    parseEvaluationConfig,
+    renderEvaluationMarkdown,
+    runEvaluation,
+} from './services/evaluation-service.js';
+import type { EvaluationConfig, EvaluationReport } from './types/index.js';
+import { config } from './config.js';
+
+const USAGE = `Offline evaluation of recommendation quality
+
+  pnpm evaluate --shop <shop_id> (--baskets <file.json> | --since <date> [--until <date>] [--limit <n>])
+                [--config <file.json> ...] [--k <n>] [--format markdown|json] [--out <file>] [--verbose]
+  pnpm evaluate --compare <report.json> <report.json> ... [--out <file>]
+
+Without --config the current configuration is evaluated. LLM_PROVIDER defaults to mock.`;
+
+dotenv.config();
+
+// Offline by default - set LLM_PROVIDER to evaluate a real ranking model
+process.env.LLM_PROVIDER ||= 'mock';
+
+async function readJson(file: string): Promise<any> {
+    return JSON.parse(await readFile(file, 'utf-8'));
+}
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            shop: { type: 'string' },
+            baskets: { type: 'string' },
+            since: { type: 'string' },
+            until: { type: 'string' },
+            limit: { type: 'string', default: '500' },
+            config: { type: 'string', multiple: true },
+            k: { type: 'string', default: String(config.limits.final_recommendations) },
+            format: { type: 'string', default: 'markdown' },
+            out: { type: 'string' },
+            compare: { type: 'boolean', default: false },
+            verbose: { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    // Side by side view of reports saved with --format json, e.g. from two branches
+    if (values.compare) {
+        if (positionals.length === 0) throw new EvaluationInputError(['--compare needs saved JSON reports']);
+        const reports: EvaluationReport[] = await Promise.all(positionals.map(readJson));
+        await output(renderEvaluationMarkdown(reports), values.out);
+        return;
+    }
+
+    const k = parseInt(values.k!);
+    const limit = parseInt(values.limit!);
+    const errors: string[] = [];
+    if (!values.shop) errors.push('--shop is required');
+    if (!values.baskets && !values.since) errors.push('--baskets or --since is required');
+    if (isNaN(k) || k < 1) errors.push('--k must be a positive integer');
+    if (isNaN(limit) || limit < 1) errors.push('--limit must be a positive integer');
+    if ((values.since && isNaN(new Date(values.since).getTime())) || (values.until && isNaN(new Date(values.until).getTime()))) {
+        errors.push('--since and --until must be ISO dates');
+    }
+    if (values.format !== 'markdown' && values.format !== 'json') errors.push('--format must be markdown or json');
+    if (errors.length > 0) throw new EvaluationInputError(errors);
+
+    const evaluations: EvaluationConfig[] = values.config
+        ? await Promise.all(values.config.map(async file => parseEvaluationConfig(await readJson(file), file)))
+        : [{ name: 'current' }];
+
+    // The pipeline logs every step of every query - only the evaluator's progress is shown, on stderr,
+    // so the report can be piped
+    const log = console.log;
+    if (!values.verbose) console.log = () => {};
+    await initializeDatabase();
+    try {
+        const baskets = values.baskets
+            ? parseBaskets(await readJson(values.baskets))
+            : await loadHeldOutBaskets(
+                values.shop!,
+                new Date(values.since!),
+                values.until ? new Date(values.until) : new Date(),
+                limit
+            );
+        if (baskets.length === 0) {
+            throw new EvaluationInputError(['no held-out baskets with at least two products']);
+        }
+        
+        const report = await runEvaluation(values.shop!, baskets, evaluations, k, console.error);
+        await output(
+            values.format === 'json' ? JSON.stringify(report, null, 2) + '\n' : renderEvaluationMarkdown([report]),
+            values.out
+        );
+    } finally {
+        console.log = log;
+        await closeDatabase();
+    }
+}
+
+async function output(text: string, file: string | undefined): Promise<void> {
+    if (file) {
+        await writeFile(file, text);
+        console.error(`📄 Report written to ${file}`);
+    } else {
+        process.stdout.write(text);
+    }
+}
+
+main().catch(error => {
+    if (error instanceof EvaluationInputError) {
+        console.error(`❌ ${error.errors.join('\n❌ ')}\n\n${USAGE}`);
+    } else {
+        console.error('❌ Evaluation failed:', error);
+    }
+    process.exit(1);
+});
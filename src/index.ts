@@ -3,14 +3,61 @@ import dotenv from 'dotenv';
 import { initializeDatabase, closeDatabase } from './database/db.js';
 import { runPrecomputation } from './services/precompute-service.js';
 import { getRecommendations } from './services/recommendation-service.js';
-import type { PrecomputeRequest } from './types/index.js';
+import { getPrecomputedRecommendations } from './services/recommendation-list-service.js';
+import { buildCacheKey, getCachedResponse, invalidateShopCache, setCachedResponse } from './services/cache-service.js';
+import { startBackgroundReembedding } from './services/reembedding-service.js';
+import {
+    createPrecomputeJob,
+    getPrecomputeJob,
+    listPrecomputeJobs,
+    requestJobCancellation,
+} from './services/job-service.js';
+import { ingestCatalog } from './services/catalog-service.js';
+import { ProductValidationError, deleteProduct, upsertProduct } from './services/product-service.js';
+import { recordEvents } from './services/event-service.js';
+import { RuleValidationError, createRule, deleteRule, getRule, listRules, updateRule } from './services/rule-service.js';
+import {
+    ExperimentValidationError,
+    assignExperimentArm,
+    createExperiment,
+    deleteExperiment,
+    getArmOverrides,
+    getExperiment,
+    getExperimentReport,
+    listExperiments,
+    recordExposure,
+    updateExperiment,
+} from './services/experiment-service.js';
+import {
+    RECOMMENDATION_EVENT_TYPES,
+    TrackingValidationError,
+    getRecommendationReport,
+    recordRecommendationEvent,
+    recordRecommendationResponse,
+    withPositions,
+} from './services/tracking-service.js';
+import { getLLMOutputStats } from './services/llm-service.js';
+import { CATALOG_FORMATS, CatalogParseError, detectCatalogFormat } from './services/catalog-source.js';
+import type {
+    CatalogFormat,
+    PrecomputeRequest,
+    RankingMode,
+    RecommendationEventType,
+    RecommendationPath,
+    RecommendationResult,
+    ScoredProduct,
+} from './types/index.js';
+import { config } from './config.js';
+
+const RANKING_MODES: RankingMode[] = ['llm', 'weighted', 'hybrid'];
+const RECOMMENDATION_PATHS: RecommendationPath[] = ['precomputed', 'live'];
 
 dotenv.config();
 
 const app = express();
 const port = process.env.PORT || 3000;
 
-app.use(express.json());
+app.use(express.json({ limit: '50mb' }));
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -28,16 +75,17 @@ app.post('/api/precompute', async (req: Request, res: Response) => {
         }
         
         console.log(`🚀 Starting precomputation for shop: ${shop_id}`);
-        const startTime = Date.now();
+        const jobId = await createPrecomputeJob(shop_id, force_rebuild);
         
         // Run precomputation in the background
-        runPrecomputation(shop_id, force_rebuild).catch(err => {
+        runPrecomputation(shop_id, force_rebuild, jobId).catch(err => {
             console.error('Precomputation error:', err);
         });
         
-        // Return immediately
+        // Return immediately - poll GET /api/precompute/:jobId for progress
         res.json({
             message: 'Precomputation started',
+            job_id: jobId,
             shop_id,
             started_at: new Date().toISOString()
         });
@@ -47,35 +95,336 @@ app.post('/api/precompute', async (req: Request, res: Response) => {
     }
 });
 
+// Precompute job status - per-step progress, durations and errors
+app.get('/api/precompute/:jobId', async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.jobId as string);
+        if (isNaN(jobId)) {
+            res.status(400).json({ error: 'jobId must be a number' });
+            return;
+        }
+        
+        const job = await getPrecomputeJob(jobId);
+        if (!job) {
+            res.status(404).json({ error: `Precompute job ${jobId} not found` });
+            return;
+        }
+        
+        res.json(job);
+    } catch (error: any) {
+        console.error('Error in precompute status endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Cancel a running precompute job - takes effect between batches
+app.delete('/api/precompute/:jobId', async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.jobId as string);
+        if (isNaN(jobId)) {
+            res.status(400).json({ error: 'jobId must be a number' });
+            return;
+        }
+        
+        const job = await requestJobCancellation(jobId);
+        if (!job) {
+            res.status(404).json({ error: `Precompute job ${jobId} not found` });
+            return;
+        }
+        if (job.status !== 'running') {
+            res.status(409).json({ error: `Precompute job ${jobId} is already ${job.status}`, job });
+            return;
+        }
+        
+        console.log(`🛑 Cancellation requested for precompute job ${jobId}`);
+        res.status(202).json({ message: 'Cancellation requested', job });
+    } catch (error: any) {
+        console.error('Error in precompute cancel endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Precompute history for a shop (most recent first)
+app.get('/api/shops/:shopId/precompute', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const limit = Math.min(parseInt((req.query.limit as string) || '20') || 20, 100);
+        
+        const jobs = await listPrecomputeJobs(shopId, limit);
+        res.json({ shop_id: shopId, jobs });
+    } catch (error: any) {
+        console.error('Error in precompute history endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Catalog ingestion - JSON, NDJSON, CSV, Shopify JSON or Shopify CSV export
+// Bad records are reported line by line; valid ones are stored for the next precompute
+const catalogTextParser = express.text({
+    type: ['text/*', 'application/x-ndjson', 'application/ndjson', 'application/jsonl'],
+    limit: '50mb',
+});
+
+app.post('/api/shops/:shopId/catalog', catalogTextParser, async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const format = ((req.query.format as string) || detectCatalogFormat(req.get('content-type'))) as CatalogFormat;
+        const mode = (req.query.mode as string) || 'replace';
+        
+        if (!CATALOG_FORMATS.includes(format)) {
+            res.status(400).json({ error: `format must be one of: ${CATALOG_FORMATS.join(', ')}` });
+            return;
+        }
+        if (mode !== 'replace' && mode !== 'merge') {
+            res.status(400).json({ error: 'mode must be replace or merge' });
+            return;
+        }
+        if (req.body === undefined || req.body === null || req.body === '') {
+            res.status(400).json({ error: 'Request body is empty' });
+            return;
+        }
+        
+        let result;
+        try {
+            result = await ingestCatalog(shopId, format, req.body, mode);
+        } catch (error: any) {
+            // Document-level parse errors (e.g. malformed JSON) are client errors
+            if (error instanceof CatalogParseError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            throw error;
+        }
+        
+        console.log(`📥 Catalog upload for ${shopId}: ${result.accepted} accepted, ${result.rejected} rejected (${format}, ${mode})`);
+        res.status(result.accepted > 0 ? 200 : 422).json(result);
+    } catch (error: any) {
+        console.error('Error in catalog endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Single-product upsert - Shopify products/create and products/update webhook payloads
+app.put('/api/shops/:shopId/products/:id', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const productId = parseInt(req.params.id as string);
+        if (isNaN(productId)) {
+            res.status(400).json({ error: 'id must be a number' });
+            return;
+        }
+        
+        const startTime = Date.now();
+        const result = await upsertProduct(shopId, productId, req.body || {});
+        
+        res.json({
+            message: 'Product upserted',
+            shop_id: shopId,
+            product_id: productId,
+            status: result.product.status,
+            tags: result.tags,
+            embedding_version: result.embedding_version,
+            processing_time_ms: Date.now() - startTime
+        });
+    } catch (error: any) {
+        if (error instanceof ProductValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in product upsert endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Single-product delete - Shopify products/delete webhook
+app.delete('/api/shops/:shopId/products/:id', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const productId = parseInt(req.params.id as string);
+        if (isNaN(productId)) {
+            res.status(400).json({ error: 'id must be a number' });
+            return;
+        }
+        
+        const deleted = await deleteProduct(shopId, productId);
+        if (!deleted) {
+            res.status(404).json({ error: `Product ${productId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json({ message: 'Product deleted', shop_id: shopId, product_id: productId });
+    } catch (error: any) {
+        console.error('Error in product delete endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Behavioural events - view, add_to_cart and purchase; one event or { shop_id, events: [...] }
+app.post('/api/events', async (req: Request, res: Response) => {
+    try {
+        if (!req.body || typeof req.body !== 'object') {
+            res.status(400).json({ error: 'Request body must be an event or { events: [...] }' });
+            return;
+        }
+        
+        const result = await recordEvents(req.body);
+        res.status(result.accepted > 0 ? 200 : 422).json(result);
+    } catch (error: any) {
+        console.error('Error in events endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Distinct product ids of a response's upsell and crosssell lists
+function getRecommendedIds(recommendations: { upsell: ScoredProduct[]; crosssell: ScoredProduct[] }): number[] {
+    return Array.from(new Set([...recommendations.upsell, ...recommendations.crosssell].map(p => Number(p.id))));
+}
+
 // Get recommendations endpoint - returns product recommendations
 app.post('/api/recommendations', async (req: Request, res: Response) => {
     try {
-        const { shop_id, product_ids, recommendation_type } = req.body;
+        const {
+            shop_id,
+            product_ids,
+            recommendation_type,
+            ranking_mode = config.ranking.default_mode,
+            variant_ids = [],
+            include_variants = false,
+            mode = 'precomputed',
+            debug = false,
+            session_id,
+            user_id
+        } = req.body;
         
         if (!shop_id || !product_ids || !Array.isArray(product_ids) || product_ids.length === 0) {
             res.status(400).json({ error: 'shop_id and product_ids (array of numbers) are required' });
             return;
         }
         
+        if (!RANKING_MODES.includes(ranking_mode)) {
+            res.status(400).json({ error: `ranking_mode must be one of: ${RANKING_MODES.join(', ')}` });
+            return;
+        }
+        
+        if (!RECOMMENDATION_PATHS.includes(mode)) {
+            res.status(400).json({ error: `mode must be one of: ${RECOMMENDATION_PATHS.join(', ')}` });
+            return;
+        }
+        
+        if (!Array.isArray(variant_ids) || typeof include_variants !== 'boolean') {
+            res.status(400).json({ error: 'variant_ids must be an array of numbers and include_variants a boolean' });
+            return;
+        }
+        
+        if (typeof debug !== 'boolean') {
+            res.status(400).json({ error: 'debug must be a boolean' });
+            return;
+        }
+        
+        if ((session_id !== undefined && (typeof session_id !== 'string' || !session_id.trim())) ||
+            (user_id !== undefined && (typeof user_id !== 'string' || !user_id.trim()))) {
+            res.status(400).json({ error: 'session_id and user_id must be non-empty strings' });
+            return;
+        }
+        
         console.log(`🎯 Generating recommendations for products: ${product_ids.join(', ')}`);
         const startTime = Date.now();
         
-        // Get recommendations using new signature
-        const recommendations = await getRecommendations(
+        // A/B experiment: the subject's arm may override ranking mode, weights, model and candidate pool
+        const subjectId = user_id || session_id;
+        const assignment = subjectId ? await assignExperimentArm(shop_id, subjectId) : null;
+        const arm = assignment ? getArmOverrides(assignment.arm) : null;
+        const rankingMode: RankingMode = assignment?.arm.ranking_mode ?? ranking_mode;
+        const experiment = assignment
+            ? { id: assignment.experiment_id, name: assignment.experiment_name, arm: assignment.arm.name }
+            : null;
+        
+        const types = recommendation_type || ['upsell', 'crosssell'];
+        const options = { variant_ids: variant_ids.map(Number), include_variants, debug, ...arm?.options };
+        
+        // Identical requests are answered from the cache until the shop's next precompute or product change
+        const cacheKey = buildCacheKey({
+            product_ids: product_ids.map(Number).sort((a: number, b: number) => a - b),
+            recommendation_type: [...types].sort(),
+            mode,
+            ranking_mode: rankingMode,
+            variant_ids: [...options.variant_ids].sort((a, b) => a - b),
+            include_variants,
+            experiment_arm: experiment ? `${experiment.id}:${experiment.arm}` : null
+        });
+        // Debug requests always rank live and bypass the cache, so the trace describes this request
+        const cached = debug ? null : await getCachedResponse(shop_id, cacheKey);
+        if (cached) {
+            const recommendations = withPositions(cached.value.recommendations);
+            if (assignment) {
+                await recordExposure(assignment, session_id ?? null, getRecommendedIds(recommendations));
+            }
+            // Every response - cached or not - gets its own id for impression / click / conversion feedback
+            const recommendationId = await recordRecommendationResponse(shop_id, product_ids.map(Number), {
+                ranking_mode: cached.value.ranking_mode,
+                served_by: cached.value.served_by,
+                experiment
+            }, recommendations);
+            res.set('X-Cache', 'HIT');
+            res.set('X-Cache-Tier', cached.tier);
+            res.json({
+                recommendation_id: recommendationId,
+                ...cached.value,
+                recommendations,
+                list_age_seconds: cached.value.list_computed_at
+                    ? Math.round((Date.now() - new Date(cached.value.list_computed_at).getTime()) / 1000)
+                    : null,
+                cache: { status: 'hit', tier: cached.tier },
+                processing_time_ms: Date.now() - startTime
+            });
+            return;
+        }
+        
+        // Stored lists by default; live ranking on request, for arms that change ranking,
+        // or when a product has no stored list yet
+        const precomputed = mode === 'precomputed' && !debug && !arm?.changesRanking
+            ? await getPrecomputedRecommendations(shop_id, product_ids, types, options)
+            : null;
+        const result: RecommendationResult = precomputed
+            ? precomputed.recommendations
+            : await getRecommendations(shop_id, product_ids, types, rankingMode, options);
+        const { trace, applied_rules = [], ...lists } = result;
+        const recommendations = withPositions(lists);
+        
+        const body = {
             shop_id,
             product_ids,
-            recommendation_type || ['upsell', 'crosssell']
-        );
+            ranking_mode: precomputed ? precomputed.ranking_mode : rankingMode,
+            served_by: precomputed ? 'precomputed' : 'live',
+            list_computed_at: precomputed ? precomputed.computed_at : null,
+            list_age_seconds: precomputed ? Math.round((Date.now() - precomputed.computed_at.getTime()) / 1000) : null,
+            recommendations,
+            applied_rules,
+            experiment
+        };
+        if (!debug) {
+            await setCachedResponse(shop_id, cacheKey, body);
+        }
+        if (assignment) {
+            await recordExposure(assignment, session_id ?? null, getRecommendedIds(recommendations));
+        }
+        const recommendationId = await recordRecommendationResponse(shop_id, product_ids.map(Number), {
+            ranking_mode: body.ranking_mode,
+            served_by: body.served_by,
+            experiment
+        }, recommendations);
         
         const processingTime = Date.now() - startTime;
         
         const response = {
-            shop_id,
-            product_ids,
-            recommendations,
-            processing_time_ms: processingTime
+            recommendation_id: recommendationId,
+            ...body,
+            cache: { status: debug ? 'bypass' : 'miss', tier: null },
+            processing_time_ms: processingTime,
+            ...(trace ? { trace } : {})
         };
         
+        res.set('X-Cache', debug ? 'BYPASS' : 'MISS');
         console.log(`✅ Generated ${recommendations.upsell.length} upsell and ${recommendations.crosssell.length} crosssell recommendations in ${processingTime}ms`);
         
         res.json(response);
@@ -85,14 +434,309 @@ app.post('/api/recommendations', async (req: Request, res: Response) => {
     }
 });
 
+// Storefront feedback on a served response - impression, click or conversion
+app.post('/api/recommendations/:recommendationId/:eventType', async (req: Request, res: Response) => {
+    try {
+        const recommendationId = req.params.recommendationId as string;
+        const eventType = req.params.eventType as RecommendationEventType;
+        if (!RECOMMENDATION_EVENT_TYPES.includes(eventType)) {
+            res.status(404).json({ error: `Event type must be one of: ${RECOMMENDATION_EVENT_TYPES.join(', ')}` });
+            return;
+        }
+        
+        const recorded = await recordRecommendationEvent(recommendationId, eventType, req.body);
+        if (recorded === null) {
+            res.status(404).json({ error: `Recommendation ${recommendationId} not found` });
+            return;
+        }
+        
+        res.json({ recommendation_id: recommendationId, event_type: eventType, recorded });
+    } catch (error: any) {
+        if (error instanceof TrackingValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in recommendation feedback endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// CTR and attributed revenue per shop, source product, recommendation type and candidate channel
+app.get('/api/shops/:shopId/recommendations/report', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const to = req.query.to ? new Date(req.query.to as string) : new Date();
+        const from = req.query.from
+            ? new Date(req.query.from as string)
+            : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+            res.status(400).json({ error: 'from and to must be ISO dates with from before to' });
+            return;
+        }
+        
+        const report = await getRecommendationReport(shopId, from, to);
+        res.json(report);
+    } catch (error: any) {
+        console.error('Error in recommendation report endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// LLM reply validation counts per stage since the server started - parse failures, repairs, fallbacks
+app.get('/api/llm/stats', (req: Request, res: Response) => {
+    res.json(getLLMOutputStats());
+});
+
+// Flush a shop's cached recommendation responses
+app.delete('/api/shops/:shopId/cache', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const removed = await invalidateShopCache(shopId);
+        res.json({ message: 'Cache flushed', shop_id: shopId, memory_entries_removed: removed });
+    } catch (error: any) {
+        console.error('Error in cache flush endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Merchandising rules - pin, exclude, boost / bury and never-crosssell; changes apply to the next request
+app.get('/api/shops/:shopId/rules', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const rules = await listRules(shopId);
+        res.json({ shop_id: shopId, rules });
+    } catch (error: any) {
+        console.error('Error in rules list endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/shops/:shopId/rules', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const rule = await createRule(shopId, req.body);
+        console.log(`📏 Created ${rule.rule_type} rule ${rule.id} for shop ${shopId}`);
+        res.status(201).json(rule);
+    } catch (error: any) {
+        if (error instanceof RuleValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in rule create endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/shops/:shopId/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const ruleId = parseInt(req.params.ruleId as string);
+        if (isNaN(ruleId)) {
+            res.status(400).json({ error: 'ruleId must be a number' });
+            return;
+        }
+        
+        const rule = await getRule(shopId, ruleId);
+        if (!rule) {
+            res.status(404).json({ error: `Rule ${ruleId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json(rule);
+    } catch (error: any) {
+        console.error('Error in rule endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.put('/api/shops/:shopId/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const ruleId = parseInt(req.params.ruleId as string);
+        if (isNaN(ruleId)) {
+            res.status(400).json({ error: 'ruleId must be a number' });
+            return;
+        }
+        
+        const rule = await updateRule(shopId, ruleId, req.body);
+        if (!rule) {
+            res.status(404).json({ error: `Rule ${ruleId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json(rule);
+    } catch (error: any) {
+        if (error instanceof RuleValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in rule update endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/shops/:shopId/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const ruleId = parseInt(req.params.ruleId as string);
+        if (isNaN(ruleId)) {
+            res.status(400).json({ error: 'ruleId must be a number' });
+            return;
+        }
+        
+        const deleted = await deleteRule(shopId, ruleId);
+        if (!deleted) {
+            res.status(404).json({ error: `Rule ${ruleId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json({ message: 'Rule deleted', shop_id: shopId, rule_id: ruleId });
+    } catch (error: any) {
+        console.error('Error in rule delete endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// A/B experiments - arms override ranking mode, weights, model or candidate pool; one runs per shop at a time
+app.get('/api/shops/:shopId/experiments', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experiments = await listExperiments(shopId);
+        res.json({ shop_id: shopId, experiments });
+    } catch (error: any) {
+        console.error('Error in experiments list endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/shops/:shopId/experiments', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experiment = await createExperiment(shopId, req.body);
+        console.log(`🧪 Created experiment ${experiment.id} (${experiment.name}) for shop ${shopId}`);
+        res.status(201).json(experiment);
+    } catch (error: any) {
+        if (error instanceof ExperimentValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in experiment create endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/shops/:shopId/experiments/:experimentId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experimentId = parseInt(req.params.experimentId as string);
+        if (isNaN(experimentId)) {
+            res.status(400).json({ error: 'experimentId must be a number' });
+            return;
+        }
+        
+        const experiment = await getExperiment(shopId, experimentId);
+        if (!experiment) {
+            res.status(404).json({ error: `Experiment ${experimentId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json(experiment);
+    } catch (error: any) {
+        console.error('Error in experiment endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.put('/api/shops/:shopId/experiments/:experimentId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experimentId = parseInt(req.params.experimentId as string);
+        if (isNaN(experimentId)) {
+            res.status(400).json({ error: 'experimentId must be a number' });
+            return;
+        }
+        
+        const experiment = await updateExperiment(shopId, experimentId, req.body);
+        if (!experiment) {
+            res.status(404).json({ error: `Experiment ${experimentId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json(experiment);
+    } catch (error: any) {
+        if (error instanceof ExperimentValidationError) {
+            res.status(422).json({ error: error.message, errors: error.errors });
+            return;
+        }
+        console.error('Error in experiment update endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/shops/:shopId/experiments/:experimentId', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experimentId = parseInt(req.params.experimentId as string);
+        if (isNaN(experimentId)) {
+            res.status(400).json({ error: 'experimentId must be a number' });
+            return;
+        }
+        
+        const deleted = await deleteExperiment(shopId, experimentId);
+        if (!deleted) {
+            res.status(404).json({ error: `Experiment ${experimentId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        res.json({ message: 'Experiment deleted', shop_id: shopId, experiment_id: experimentId });
+    } catch (error: any) {
+        console.error('Error in experiment delete endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Per-arm impressions, clicks and conversions of an experiment
+app.get('/api/shops/:shopId/experiments/:experimentId/report', async (req: Request, res: Response) => {
+    try {
+        const shopId = req.params.shopId as string;
+        const experimentId = parseInt(req.params.experimentId as string);
+        if (isNaN(experimentId)) {
+            res.status(400).json({ error: 'experimentId must be a number' });
+            return;
+        }
+        
+        const experiment = await getExperiment(shopId, experimentId);
+        if (!experiment) {
+            res.status(404).json({ error: `Experiment ${experimentId} not found for shop ${shopId}` });
+            return;
+        }
+        
+        const arms = await getExperimentReport(experiment);
+        res.json({
+            shop_id: shopId,
+            experiment_id: experiment.id,
+            name: experiment.name,
+            status: experiment.status,
+            arms
+        });
+    } catch (error: any) {
+        console.error('Error in experiment report endpoint:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
 // Initialize database and start server
 async function startServer() {
     try {
         await initializeDatabase();
         
+        // Bring embeddings from another embedding version (config or provider) up to date
+        startBackgroundReembedding();
+        
         app.listen(port, () => {
             console.log(`✅ Server is running at http://localhost:${port}`);
             console.log(`📊 Precompute endpoint: POST http://localhost:${port}/api/precompute`);
+            console.log(`📈 Precompute status: GET http://localhost:${port}/api/precompute/:jobId`);
             console.log(`🎯 Recommendations endpoint: POST http://localhost:${port}/api/recommendations`);
         });
     } catch (error) {
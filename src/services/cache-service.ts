@@ -0,0 +1,153 @@
+import { pool } from '../database/db.js';
+import type { CacheTier } from '../types/index.js';
+import { config } from '../config.js';
+import { createHash } from 'crypto';
+
+interface MemoryEntry {
+  value: any;
+  expiresAt: number;
+}
+
+// In-process LRU - Map iteration order is insertion order, so the first key is the least recently used
+const memory = new Map<string, MemoryEntry>();
+
+// Per-shop generation: bumping it invalidates every entry of the shop at once
+// (shared in Postgres when the postgres tier is on, so all instances see the bump)
+const localGenerations = new Map<string, number>();
+
+let writesSinceCleanup = 0;
+
+function isEnabled(): boolean {
+  return config.cache.enabled && process.env.RECOMMENDATION_CACHE !== 'off';
+}
+
+function isSharedTierEnabled(): boolean {
+  return (process.env.RECOMMENDATION_CACHE_SHARED_TIER || config.cache.shared_tier) === 'postgres';
+}
+
+// Stable key for a request: object keys sorted, so property order doesn't matter
+export function buildCacheKey(request: Record<string, any>): string {
+  const normalized = Object.keys(request).sort().map(key => [key, request[key]]);
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+async function getGeneration(shopId: string): Promise<number> {
+  if (!isSharedTierEnabled()) {
+    return localGenerations.get(shopId) || 0;
+  }
+  const result = await pool.query('SELECT generation FROM cache_generations WHERE shop_id = $1', [shopId]);
+  return result.rows.length > 0 ? Number(result.rows[0].generation) : 0;
+}
+
+function memoryGet(key: string): any | null {
+  const entry = memory.get(key);
+  if (!entry) return null;
+  memory.delete(key);
+  if (entry.expiresAt <= Date.now()) return null;
+  memory.set(key, entry); // most recently used
+  return entry.value;
+}
+
+function memorySet(key: string, value: any): void {
+  memory.delete(key);
+  memory.set(key, { value, expiresAt: Date.now() + config.cache.ttl_seconds * 1000 });
+  while (memory.size > config.cache.max_entries) {
+    memory.delete(memory.keys().next().value as string);
+  }
+}
+
+/**
+ * Look a response up in the in-process LRU, then in the shared Postgres tier
+ * Shared-tier errors are logged and treated as a miss
+ * @returns The cached value and the tier it came from, or null on a miss
+ */
+export async function getCachedResponse(shopId: string, key: string): Promise<{ value: any; tier: CacheTier } | null> {
+  if (!isEnabled()) return null;
+
+  try {
+    const generation = await getGeneration(shopId);
+    const memoryKey = `${shopId}:${generation}:${key}`;
+
+    const cached = memoryGet(memoryKey);
+    if (cached !== null) {
+      return { value: cached, tier: 'memory' };
+    }
+
+    if (isSharedTierEnabled()) {
+      const result = await pool.query(
+        `SELECT response FROM recommendation_cache
+         WHERE shop_id = $1 AND cache_key = $2 AND generation = $3 AND expires_at > CURRENT_TIMESTAMP`,
+        [shopId, key, generation]
+      );
+      if (result.rows.length > 0) {
+        memorySet(memoryKey, result.rows[0].response);
+        return { value: result.rows[0].response, tier: 'postgres' };
+      }
+    }
+  } catch (error: any) {
+    console.error('⚠️  Cache lookup failed:', error.message);
+  }
+
+  return null;
+}
+
+// Store a response in the in-process LRU and, when enabled, the shared Postgres tier
+export async function setCachedResponse(shopId: string, key: string, value: any): Promise<void> {
+  if (!isEnabled()) return;
+
+  try {
+    const generation = await getGeneration(shopId);
+    memorySet(`${shopId}:${generation}:${key}`, value);
+
+    if (isSharedTierEnabled()) {
+      await pool.query(
+        `INSERT INTO recommendation_cache (shop_id, cache_key, generation, response, expires_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(secs => $5::int))
+         ON CONFLICT (shop_id, cache_key) DO UPDATE SET
+           generation = $3, response = $4, expires_at = CURRENT_TIMESTAMP + make_interval(secs => $5::int)`,
+        [shopId, key, generation, JSON.stringify(value), config.cache.ttl_seconds]
+      );
+
+      // Expired rows are only ever overwritten by the same key - sweep them now and then
+      if (++writesSinceCleanup >= 100) {
+        writesSinceCleanup = 0;
+        await pool.query('DELETE FROM recommendation_cache WHERE expires_at <= CURRENT_TIMESTAMP');
+      }
+    }
+  } catch (error: any) {
+    console.error('⚠️  Cache write failed:', error.message);
+  }
+}
+
+/**
+ * Drop every cached response of a shop (precompute completed, product changed, admin flush)
+ * @returns Number of in-process entries removed
+ */
+export async function invalidateShopCache(shopId: string): Promise<number> {
+  const prefix = `${shopId}:`;
+  let removed = 0;
+  for (const key of Array.from(memory.keys())) {
+    if (key.startsWith(prefix)) {
+      memory.delete(key);
+      removed++;
+    }
+  }
+
+  localGenerations.set(shopId, (localGenerations.get(shopId) || 0) + 1);
+
+  if (isSharedTierEnabled()) {
+    try {
+      await pool.query(
+        `INSERT INTO cache_generations (shop_id, generation) VALUES ($1, 1)
+         ON CONFLICT (shop_id) DO UPDATE SET generation = cache_generations.generation + 1`,
+        [shopId]
+      );
+      await pool.query('DELETE FROM recommendation_cache WHERE shop_id = $1', [shopId]);
+    } catch (error: any) {
+      console.error(`⚠️  Shared cache invalidation failed for shop ${shopId}:`, error.message);
+    }
+  }
+
+  console.log(`🧹 Cache invalidated for shop ${shopId} (${removed} in-process entries)`);
+  return removed;
+}
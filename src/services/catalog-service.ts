@@ -0,0 +1,210 @@
+import { pool } from '../database/db.js';
+import type {
+  CatalogFormat,
+  CatalogIngestResult,
+  CatalogProduct,
+  CatalogRecordError,
+  ProductVariant,
+} from '../types/index.js';
+import { getCatalogSource } from './catalog-source.js';
+
+const PRODUCT_STATUSES = ['active', 'draft', 'archived'];
+
+function toInteger(value: any): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+function toPrice(value: any): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function calculateStock(variants: any[]): number {
+  return variants.reduce((sum, v) => sum + (v.inventory_quantity || 0), 0);
+}
+
+/**
+ * Validate a raw record against CatalogProduct and normalise it
+ * @returns The product, or the list of problems with the record
+ */
+export function validateCatalogProduct(data: any): { product?: CatalogProduct; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['record must be an object'] };
+  }
+
+  const id = toInteger(data.id);
+  if (id === null) errors.push('id must be a positive integer');
+
+  if (typeof data.title !== 'string' || !data.title.trim()) errors.push('title is required');
+
+  const price = toPrice(data.price);
+  if (price === null) errors.push('price must be a non-negative number');
+
+  if (data.category !== undefined && data.category !== null && typeof data.category !== 'string') {
+    errors.push('category must be a string');
+  }
+  if (data.vendor !== undefined && data.vendor !== null && typeof data.vendor !== 'string') {
+    errors.push('vendor must be a string');
+  }
+
+  const status = data.status || 'active';
+  if (!PRODUCT_STATUSES.includes(status)) {
+    errors.push(`status must be one of: ${PRODUCT_STATUSES.join(', ')}`);
+  }
+
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some((t: any) => typeof t !== 'string'))) {
+    errors.push('tags must be an array of strings');
+  }
+
+  const variants: ProductVariant[] = [];
+  if (!Array.isArray(data.variants) || data.variants.length === 0) {
+    errors.push('variants must be a non-empty array');
+  } else {
+    data.variants.forEach((v: any, i: number) => {
+      const variantId = toInteger(v?.id);
+      const variantPrice = toPrice(v?.price);
+      const inventory = v?.inventory_quantity === undefined ? 0 : Number(v.inventory_quantity);
+
+      if (variantId === null) errors.push(`variants[${i}].id must be a positive integer`);
+      if (typeof v?.title !== 'string' || !v.title.trim()) errors.push(`variants[${i}].title is required`);
+      if (variantPrice === null) errors.push(`variants[${i}].price must be a non-negative number`);
+      if (!Number.isInteger(inventory)) errors.push(`variants[${i}].inventory_quantity must be an integer`);
+
+      if (variantId !== null && variantPrice !== null && Number.isInteger(inventory)) {
+        variants.push({ id: variantId, title: v.title.trim(), price: variantPrice, inventory_quantity: inventory });
+      }
+    });
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    product: {
+      id: id as number,
+      title: data.title.trim(),
+      status,
+      category: data.category || '',
+      price: price as number,
+      vendor: data.vendor || '',
+      variants,
+      tags: data.tags || [],
+      weight: data.weight !== undefined ? Number(data.weight) : undefined,
+      stock: calculateStock(variants),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Parse, validate and store a shop's catalog upload
+ * @param mode - replace: the upload is the whole catalog; merge: upsert the uploaded products only
+ */
+export async function ingestCatalog(
+  shopId: string,
+  format: CatalogFormat,
+  content: string | object,
+  mode: 'replace' | 'merge' = 'replace'
+): Promise<CatalogIngestResult> {
+  const records = getCatalogSource(format).parse(content);
+  const errors: CatalogRecordError[] = [];
+  const accepted = new Map<number, { line: number; product: CatalogProduct }>();
+
+  for (const record of records) {
+    if (record.parseError) {
+      errors.push({ line: record.line, errors: [record.parseError] });
+      continue;
+    }
+
+    const { product, errors: recordErrors } = validateCatalogProduct(record.data);
+    if (!product) {
+      errors.push({ line: record.line, id: record.data?.id, errors: recordErrors });
+      continue;
+    }
+
+    const duplicate = accepted.get(product.id);
+    if (duplicate) {
+      errors.push({ line: record.line, id: product.id, errors: [`duplicate id (first seen on line ${duplicate.line})`] });
+      continue;
+    }
+    accepted.set(product.id, { line: record.line, product });
+  }
+
+  let removed = 0;
+  if (accepted.size > 0) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const { product } of accepted.values()) {
+        await client.query(
+          `INSERT INTO catalog_products (shop_id, id, data, source_format, updated_at)
+           VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+           ON CONFLICT (shop_id, id) DO UPDATE SET
+             data = $3, source_format = $4, updated_at = CURRENT_TIMESTAMP`,
+          [shopId, product.id, JSON.stringify(product), format]
+        );
+      }
+
+      if (mode === 'replace') {
+        const result = await client.query(
+          'DELETE FROM catalog_products WHERE shop_id = $1 AND id <> ALL($2::bigint[])',
+          [shopId, Array.from(accepted.keys())]
+        );
+        removed = result.rowCount || 0;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return {
+    shop_id: shopId,
+    format,
+    mode,
+    received: records.length,
+    accepted: accepted.size,
+    rejected: errors.length,
+    removed,
+    errors,
+  };
+}
+
+// Load a shop's stored catalog; shops that never uploaded one get the bundled sample catalog
+export async function loadShopCatalog(shopId: string): Promise<CatalogProduct[]> {
+  const result = await pool.query(
+    'SELECT data FROM catalog_products WHERE shop_id = $1 ORDER BY id',
+    [shopId]
+  );
+
+  if (result.rows.length > 0) {
+    return result.rows.map((row: any) => row.data as CatalogProduct);
+  }
+
+  console.log(`⚠️  No stored catalog for shop ${shopId} - using sample catalog src/data/products.json`);
+  return loadSampleCatalog();
+}
+
+// Load products from the bundled JSON catalog
+async function loadSampleCatalog(): Promise<CatalogProduct[]> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  const catalogPath = path.join(process.cwd(), 'src', 'data', 'products.json');
+  const catalogData = await fs.readFile(catalogPath, 'utf-8');
+  const catalog = JSON.parse(catalogData);
+
+  return catalog.products.map((p: any) => ({
+    ...p,
+    status: p.status || 'active',
+    stock: calculateStock(p.variants),
+    tags: p.tags || [],
+  }));
+}
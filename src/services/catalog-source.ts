@@ -0,0 +1,277 @@
+import type { CatalogFormat, CatalogRecord, CatalogSource } from '../types/index.js';
+
+// The upload as a whole could not be read (individual bad records are reported, not thrown)
+export class CatalogParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogParseError';
+  }
+}
+
+// Split CSV text into rows (RFC 4180: quoted fields may contain commas, quotes and newlines)
+// Each row carries the line number it starts on
+function parseCsvRows(content: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(field);
+      if (cells.some(c => c.trim() !== '')) {
+        rows.push({ line: rowStartLine, cells });
+      }
+      cells = [];
+      field = '';
+      line++;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  cells.push(field);
+  if (cells.some(c => c.trim() !== '')) {
+    rows.push({ line: rowStartLine, cells });
+  }
+  return rows;
+}
+
+// CSV rows as header-keyed objects
+function parseCsv(content: string): Array<{ line: number; row: Record<string, string> }> {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.cells.map(c => c.trim());
+  return rows.map(({ line, cells }) => ({
+    line,
+    row: Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()])),
+  }));
+}
+
+function toJsonDocument(content: string | object): any {
+  if (typeof content !== 'string') return content;
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    throw new CatalogParseError(`Invalid JSON: ${(e as Error).message}`);
+  }
+}
+
+function splitTags(tags: string | undefined): string[] {
+  return (tags || '').split(',').map(t => t.trim()).filter(Boolean);
+}
+
+// FNV-1a hash - stable numeric ids for Shopify CSV rows that carry no ID column
+function stableNumericId(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Our own JSON format: { "products": [...] } (as in src/data/products.json) or a bare array
+const jsonSource: CatalogSource = {
+  format: 'json',
+  parse(content) {
+    const doc = toJsonDocument(content);
+    const products = Array.isArray(doc) ? doc : doc?.products;
+    if (!Array.isArray(products)) {
+      throw new CatalogParseError('JSON catalog must be an array or an object with a "products" array');
+    }
+    return products.map((data: any, i: number) => ({ line: i + 1, data }));
+  },
+};
+
+// One CatalogProduct JSON object per line
+const ndjsonSource: CatalogSource = {
+  format: 'ndjson',
+  parse(content) {
+    const text = typeof content === 'string' ? content : '';
+    const records: CatalogRecord[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, i) => {
+      if (!rawLine.trim()) return;
+      try {
+        records.push({ line: i + 1, data: JSON.parse(rawLine) });
+      } catch (e) {
+        records.push({ line: i + 1, data: null, parseError: `Invalid JSON: ${(e as Error).message}` });
+      }
+    });
+    return records;
+  },
+};
+
+// One row per variant, grouped by product id:
+// id,title,status,category,price,vendor,tags,variant_id,variant_title,variant_price,variant_inventory_quantity
+const csvSource: CatalogSource = {
+  format: 'csv',
+  parse(content) {
+    const groups = new Map<string, CatalogRecord>();
+
+    for (const { line, row } of parseCsv(typeof content === 'string' ? content : '')) {
+      const key = row.id || `line:${line}`;
+      let record = groups.get(key);
+      if (!record) {
+        record = {
+          line,
+          data: {
+            id: row.id,
+            title: row.title,
+            status: row.status || undefined,
+            category: row.category,
+            price: row.price,
+            vendor: row.vendor,
+            tags: splitTags(row.tags),
+            variants: [],
+          },
+        };
+        groups.set(key, record);
+      }
+
+      if (row.variant_id) {
+        record.data.variants.push({
+          id: row.variant_id,
+          title: row.variant_title,
+          price: row.variant_price || row.price,
+          inventory_quantity: row.variant_inventory_quantity || 0,
+        });
+      }
+    }
+
+    return Array.from(groups.values());
+  },
+};
+
+// Map a Shopify Admin API product (products.json export / product webhook payload)
+export function fromShopifyProduct(product: any): any {
+  const variants = (product.variants || []).map((v: any) => ({
+    id: v.id,
+    title: v.title,
+    price: v.price,
+    inventory_quantity: v.inventory_quantity ?? 0,
+  }));
+  const prices = variants.map((v: any) => Number(v.price)).filter((p: number) => Number.isFinite(p));
+
+  return {
+    id: product.id,
+    title: product.title,
+    status: product.status,
+    category: product.product_type || '',
+    price: prices.length > 0 ? Math.min(...prices) : product.price,
+    vendor: product.vendor || '',
+    tags: Array.isArray(product.tags) ? product.tags : splitTags(product.tags),
+    variants,
+  };
+}
+
+// Shopify Admin API JSON: { "products": [...] } or a bare array of products
+const shopifySource: CatalogSource = {
+  format: 'shopify',
+  parse(content) {
+    const doc = toJsonDocument(content);
+    const products = Array.isArray(doc) ? doc : doc?.products;
+    if (!Array.isArray(products)) {
+      throw new CatalogParseError('Shopify catalog must be an array or an object with a "products" array');
+    }
+    return products.map((product: any, i: number) => ({ line: i + 1, data: fromShopifyProduct(product) }));
+  },
+};
+
+// Shopify admin "Export products" CSV - one row per variant, continuation rows only carry Handle + variant columns
+const shopifyCsvSource: CatalogSource = {
+  format: 'shopify_csv',
+  parse(content) {
+    const groups = new Map<string, CatalogRecord>();
+
+    for (const { line, row } of parseCsv(typeof content === 'string' ? content : '')) {
+      const handle = row['Handle'];
+      const key = handle || `line:${line}`;
+      let record = groups.get(key);
+      if (!record) {
+        record = {
+          line,
+          data: {
+            id: row['ID'] || (handle ? stableNumericId(handle) : undefined),
+            title: row['Title'],
+            status: (row['Status'] || 'active').toLowerCase(),
+            category: row['Type'] || row['Product Category'] || '',
+            price: row['Variant Price'],
+            vendor: row['Vendor'] || '',
+            tags: splitTags(row['Tags']),
+            variants: [],
+          },
+        };
+        groups.set(key, record);
+      }
+
+      if (row['Variant Price']) {
+        const options = [row['Option1 Value'], row['Option2 Value'], row['Option3 Value']].filter(Boolean);
+        record.data.variants.push({
+          id: row['Variant ID'] || stableNumericId(`${handle}:${row['Variant SKU'] || options.join('/') || line}`),
+          title: options.join(' / ') || 'Default Title',
+          price: row['Variant Price'],
+          inventory_quantity: row['Variant Inventory Qty'] || 0,
+        });
+      }
+    }
+
+    return Array.from(groups.values()).map(record => {
+      const prices = record.data.variants.map((v: any) => Number(v.price)).filter((p: number) => Number.isFinite(p));
+      if (prices.length > 0) record.data.price = Math.min(...prices);
+      return record;
+    });
+  },
+};
+
+const SOURCES: Record<CatalogFormat, CatalogSource> = {
+  json: jsonSource,
+  ndjson: ndjsonSource,
+  csv: csvSource,
+  shopify: shopifySource,
+  shopify_csv: shopifyCsvSource,
+};
+
+export const CATALOG_FORMATS = Object.keys(SOURCES) as CatalogFormat[];
+
+export function getCatalogSource(format: CatalogFormat): CatalogSource {
+  const source = SOURCES[format];
+  if (!source) {
+    throw new Error(`Unsupported catalog format "${format}" (expected one of: ${CATALOG_FORMATS.join(', ')})`);
+  }
+  return source;
+}
+
+// Guess the format from the Content-Type header when ?format= is not given
+export function detectCatalogFormat(contentType: string | undefined): CatalogFormat {
+  const type = (contentType || '').toLowerCase();
+  if (type.includes('ndjson') || type.includes('jsonl')) return 'ndjson';
+  if (type.includes('csv')) return 'csv';
+  return 'json';
+}
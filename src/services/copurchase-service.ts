@@ -0,0 +1,153 @@
+import { config } from '../config.js';
+
+/**
+ * Rebuild the shop's item-to-item co-purchase table from purchase events
+ * A basket is an order (order_id) or, for events without one, a session.
+ * For each ordered pair (A, B):
+ *   support    = baskets(A ∧ B) / baskets
+ *   confidence = baskets(A ∧ B) / baskets(A)
+ *   lift       = confidence / (baskets(B) / baskets)
+ *   jaccard    = baskets(A ∧ B) / baskets(A ∨ B)
+ * Pairs below the configured support thresholds are dropped.
+ * @returns Number of stored pairs
+ */
+export async function buildCoPurchaseGraph(client: any, shopId: string): Promise<number> {
+  const { lookback_days, min_co_count, min_support, min_lift, max_neighbors } = config.copurchase;
+
+  await client.query('BEGIN');
+  try {
+    await client.query('DELETE FROM product_copurchase WHERE shop_id = $1', [shopId]);
+
+    const result = await client.query(
+      `WITH baskets AS (
+         SELECT DISTINCT COALESCE(order_id, 'session:' || session_id) AS basket, product_id
+         FROM events
+         WHERE shop_id = $1
+           AND event_type = 'purchase'
+           AND occurred_at > CURRENT_TIMESTAMP - make_interval(days => $2::int)
+       ),
+       basket_total AS (
+         SELECT COUNT(DISTINCT basket)::float AS n FROM baskets
+       ),
+       item_counts AS (
+         SELECT product_id, COUNT(*)::float AS cnt FROM baskets GROUP BY product_id
+       ),
+       pairs AS (
+         SELECT a.product_id, b.product_id AS related_product_id, COUNT(*) AS co_count
+         FROM baskets a
+         JOIN baskets b ON a.basket = b.basket AND a.product_id <> b.product_id
+         GROUP BY a.product_id, b.product_id
+         HAVING COUNT(*) >= $3::int
+       ),
+       scored AS (
+         SELECT p.product_id,
+                p.related_product_id,
+                p.co_count,
+                p.co_count / t.n AS support,
+                p.co_count / ia.cnt AS confidence,
+                (p.co_count * t.n) / (ia.cnt * ib.cnt) AS lift,
+                p.co_count / (ia.cnt + ib.cnt - p.co_count) AS jaccard
+         FROM pairs p
+         JOIN item_counts ia ON ia.product_id = p.product_id
+         JOIN item_counts ib ON ib.product_id = p.related_product_id
+         CROSS JOIN basket_total t
+       ),
+       ranked AS (
+         SELECT *, ROW_NUMBER() OVER (PARTITION BY product_id ORDER BY jaccard DESC, co_count DESC) AS rank
+         FROM scored
+         WHERE support >= $4::float AND lift >= $5::float
+       )
+       INSERT INTO product_copurchase (
+         shop_id, product_id, related_product_id, co_count, support, confidence, lift, jaccard, updated_at
+       )
+       SELECT $1, product_id, related_product_id, co_count, support, confidence, lift, jaccard, CURRENT_TIMESTAMP
+       FROM ranked
+       WHERE rank <= $6::int`,
+      [shopId, lookback_days, min_co_count, min_support, min_lift, max_neighbors]
+    );
+
+    await client.query('COMMIT');
+    return result.rowCount || 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Candidates bought together with any of the source products
+ * Rows have the same columns as tag-graph candidates plus co_purchase_count / co_purchase_jaccard / co_purchase_lift
+ */
+export async function getCoPurchaseCandidates(
+  client: any,
+  shopId: string,
+  productIds: number[],
+  limit: number = config.copurchase.candidate_limit
+): Promise<any[]> {
+  const result = await client.query(
+    `SELECT
+        p.id, p.title, p.category, p.price, p.vendor, p.variants, p.tags,
+        p.merchant_score, p.purchase_score, p.embedding, p.embedding_version, p.stock,
+        SUM(cp.co_count)::int AS co_purchase_count,
+        MAX(cp.jaccard) AS co_purchase_jaccard,
+        MAX(cp.lift) AS co_purchase_lift
+     FROM product_copurchase cp
+     JOIN products p ON p.shop_id = cp.shop_id AND p.id = cp.related_product_id
+     WHERE cp.shop_id = $1
+       AND cp.product_id = ANY($2::bigint[])
+       AND p.id != ALL($2::bigint[])
+       AND p.status = 'active'
+       AND p.stock > 0
+     GROUP BY p.shop_id, p.id
+     ORDER BY MAX(cp.jaccard) DESC, SUM(cp.co_count) DESC
+     LIMIT $3`,
+    [shopId, productIds, limit]
+  );
+
+  return result.rows;
+}
+
+// Co-purchase counts between primary product-type tags (first tag), for picking tag graph vocabularies
+export async function getTagCoPurchaseAffinity(client: any, shopId: string): Promise<Map<string, Map<string, number>>> {
+  const result = await client.query(
+    `SELECT a.tags[1] AS tag, b.tags[1] AS related_tag, SUM(cp.co_count)::int AS co_count
+     FROM product_copurchase cp
+     JOIN products a ON a.shop_id = cp.shop_id AND a.id = cp.product_id
+     JOIN products b ON b.shop_id = cp.shop_id AND b.id = cp.related_product_id
+     WHERE cp.shop_id = $1
+       AND cardinality(a.tags) > 0 AND cardinality(b.tags) > 0
+       AND a.tags[1] <> b.tags[1]
+     GROUP BY a.tags[1], b.tags[1]`,
+    [shopId]
+  );
+
+  const affinity = new Map<string, Map<string, number>>();
+  for (const row of result.rows) {
+    if (!affinity.has(row.tag)) affinity.set(row.tag, new Map());
+    affinity.get(row.tag)!.set(row.related_tag, row.co_count);
+  }
+  return affinity;
+}
+
+// Merge co-purchase candidates into the tag-graph candidates, recording which channel(s) found each
+export function mergeCandidateChannels(tagGraphCandidates: any[], coPurchaseCandidates: any[]): any[] {
+  const merged = new Map<number, any>();
+
+  for (const candidate of tagGraphCandidates) {
+    merged.set(Number(candidate.id), { ...candidate, channels: ['tag_graph'] });
+  }
+
+  // Co-purchase candidates go first - customers actually bought them together
+  const result: any[] = [];
+  for (const candidate of coPurchaseCandidates) {
+    const existing = merged.get(Number(candidate.id));
+    if (existing) {
+      merged.delete(Number(candidate.id));
+      result.push({ ...existing, ...candidate, channels: ['copurchase', 'tag_graph'] });
+    } else {
+      result.push({ ...candidate, channels: ['copurchase'] });
+    }
+  }
+
+  return [...result, ...merged.values()];
+}
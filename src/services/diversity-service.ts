@@ -0,0 +1,100 @@
+import type { ScoredProduct } from '../types/index.js';
+import { config } from '../config.js';
+import { cosineSimilarity } from './embedding-service.js';
+import { getCurrentEmbedding } from './ranking-service.js';
+
+// Style of a product without its colourway: "Classic Cotton - White" → "classic cotton"
+export function getTitleStem(title: string | undefined): string {
+  return (title || '').split(/\s+[-–|]\s+/)[0]!.trim().toLowerCase();
+}
+
+// Similarity of two candidates in [0, 1]: embedding cosine, or 1 / 0 by title stem when either lacks an embedding
+export function candidateSimilarity(a: any, b: any): number {
+  const embeddingA = getCurrentEmbedding(a);
+  const embeddingB = getCurrentEmbedding(b);
+  if (embeddingA && embeddingB && embeddingA.length === embeddingB.length) {
+    return Math.max(0, cosineSimilarity(embeddingA, embeddingB));
+  }
+  return getTitleStem(a.title) === getTitleStem(b.title) ? 1 : 0;
+}
+
+/**
+ * Diversify a ranked list with Maximal Marginal Relevance and per-vendor / primary tag / title stem caps
+ * Each pick maximises lambda × relevance − (1 − lambda) × (highest similarity to a product already picked).
+ * Products over a cap are never picked, so the list can come back shorter than the limit.
+ * @param candidates - Candidate rows of the ranked products (embeddings, tags)
+ * @param relevanceFromScore - Relevance is the weighted score; otherwise it falls with the list position (LLM order)
+ * @returns The diversified list and the ranked products a cap left out
+ */
+export function diversifyRecommendations(
+  ranked: ScoredProduct[],
+  candidates: any[],
+  relevanceFromScore: boolean,
+  limit: number = config.limits.final_recommendations
+): { products: ScoredProduct[]; skipped: Array<{ id: number; reason: string }> } {
+  const { enabled, lambda, pool_size, max_per_vendor, max_per_tag, max_per_title_stem } = config.diversity;
+  if (!enabled) {
+    return { products: ranked.slice(0, limit), skipped: [] };
+  }
+
+  const candidateById = new Map(candidates.map(c => [Number(c.id), c]));
+  const pool = ranked.slice(0, pool_size).map((product, i, list) => {
+    const candidate = candidateById.get(Number(product.id)) || product;
+    return {
+      product,
+      candidate,
+      relevance: relevanceFromScore ? product.score : 1 - i / list.length,
+      vendor: (product.vendor || '').toLowerCase(),
+      tag: (candidate.tags || [])[0] || '',
+      stem: getTitleStem(product.title),
+    };
+  });
+
+  const picked: typeof pool = [];
+  const counts = { vendor: new Map<string, number>(), tag: new Map<string, number>(), stem: new Map<string, number>() };
+  const capReason = (entry: (typeof pool)[number]): string | null => {
+    if (max_per_vendor > 0 && entry.vendor && (counts.vendor.get(entry.vendor) || 0) >= max_per_vendor) {
+      return `vendor ${entry.product.vendor} already has ${max_per_vendor}`;
+    }
+    if (max_per_tag > 0 && entry.tag && (counts.tag.get(entry.tag) || 0) >= max_per_tag) {
+      return `tag ${entry.tag} already has ${max_per_tag}`;
+    }
+    if (max_per_title_stem > 0 && entry.stem && (counts.stem.get(entry.stem) || 0) >= max_per_title_stem) {
+      return `style "${entry.stem}" already has ${max_per_title_stem}`;
+    }
+    return null;
+  };
+
+  const skipped: Array<{ id: number; reason: string }> = [];
+  let remaining = [...pool];
+  while (picked.length < limit && remaining.length > 0) {
+    let best: (typeof pool)[number] | null = null;
+    let bestValue = -Infinity;
+    const allowed: typeof pool = [];
+
+    for (const entry of remaining) {
+      const reason = capReason(entry);
+      if (reason) {
+        skipped.push({ id: Number(entry.product.id), reason });
+        continue;
+      }
+      allowed.push(entry);
+
+      const redundancy = picked.reduce((max, p) => Math.max(max, candidateSimilarity(entry.candidate, p.candidate)), 0);
+      const value = lambda * entry.relevance - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        best = entry;
+        bestValue = value;
+      }
+    }
+    if (!best) break;
+
+    picked.push(best);
+    counts.vendor.set(best.vendor, (counts.vendor.get(best.vendor) || 0) + 1);
+    counts.tag.set(best.tag, (counts.tag.get(best.tag) || 0) + 1);
+    counts.stem.set(best.stem, (counts.stem.get(best.stem) || 0) + 1);
+    remaining = allowed.filter(entry => entry !== best);
+  }
+
+  return { products: picked.map(entry => entry.product), skipped };
+}
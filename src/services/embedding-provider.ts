@@ -0,0 +1,216 @@
+import type { EmbeddingProvider, EmbeddingProviderName } from '../types/index.js';
+import { config } from '../config.js';
+import { fetchWithRetry } from './http-client.js';
+
+// Google Generative Language embeddings endpoint (text-embedding-004)
+const GOOGLE_EMBEDDING_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'this', 'that', 'pack', 'new', 'price', 'tags']);
+
+// Feature weights - whole words carry most of the meaning, char n-grams catch morphology ("tee"/"tees")
+const FEATURE_WEIGHTS = { word: 1.0, bigram: 0.6, trigram: 0.3 };
+
+// Non-zero entries per feature in the sparse random projection
+const PROJECTION_DENSITY = 8;
+
+// FNV-1a hash - stable across runs and processes
+function stableHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 PRNG - seeded per feature so every feature always projects to the same vector
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// Weighted term features: words, word bigrams and character trigrams
+function extractFeatures(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    counts.set(feature, (counts.get(feature) || 0) + weight);
+  };
+
+  const words = tokenize(text);
+  for (let i = 0; i < words.length; i++) {
+    add(`w:${words[i]}`, FEATURE_WEIGHTS.word);
+    if (i + 1 < words.length) {
+      add(`b:${words[i]} ${words[i + 1]}`, FEATURE_WEIGHTS.bigram);
+    }
+    const padded = `#${words[i]}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+  }
+
+  // Sublinear term frequency so repeated words don't dominate
+  for (const [feature, weight] of counts) {
+    counts.set(feature, 1 + Math.log(weight));
+  }
+  return counts;
+}
+
+// Offline embedder: sparse random projection of weighted n-gram features, L2-normalised
+function embedLocally(text: string, dimensions: number): number[] {
+  const embedding = new Array(dimensions).fill(0);
+
+  for (const [feature, weight] of extractFeatures(text)) {
+    const random = createRandom(stableHash(feature));
+    for (let k = 0; k < PROJECTION_DENSITY; k++) {
+      const index = Math.floor(random() * dimensions);
+      const sign = random() < 0.5 ? -1 : 1;
+      embedding[index] += sign * weight;
+    }
+  }
+
+  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+  return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
+}
+
+function createLocalProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: config.embedding.model,
+    dimensions: config.embedding.dimensions,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(text => embedLocally(text, config.embedding.dimensions));
+    },
+  };
+}
+
+// Remote Google embeddings (requires RECOMMENDATIONS_API_KEY)
+function createGoogleProvider(): EmbeddingProvider {
+  return {
+    name: 'google',
+    model: config.embedding.model,
+    dimensions: config.embedding.dimensions,
+    async embed(texts: string[]): Promise<number[][]> {
+      const apiKey = process.env.RECOMMENDATIONS_API_KEY || '';
+      if (!apiKey.trim()) {
+        throw new Error('RECOMMENDATIONS_API_KEY not found in environment variables');
+      }
+
+      const model = `models/${config.embedding.model}`;
+      const response = await fetchWithRetry(`${GOOGLE_EMBEDDING_URL}/${config.embedding.model}:batchEmbedContents`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model,
+            content: { parts: [{ text }] },
+            outputDimensionality: config.embedding.dimensions,
+          })),
+        }),
+      }, 'Embedding API');
+
+      const data = await response.json();
+      const embeddings: number[][] = (data.embeddings || []).map((e: any) => e.values);
+      if (embeddings.length !== texts.length) {
+        throw new Error(`Embedding API returned ${embeddings.length} vectors for ${texts.length} texts`);
+      }
+      return embeddings;
+    },
+  };
+}
+
+// Embedding provider by name
+function createProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case 'local':
+      return createLocalProvider();
+    case 'google':
+      return createGoogleProvider();
+    default:
+      throw new Error(`Unknown embedding provider "${name}"`);
+  }
+}
+
+// Name of the configured embedding provider - config.embedding.provider, overridden by EMBEDDING_PROVIDER
+export function getEmbeddingProviderName(): EmbeddingProviderName {
+  return (process.env.EMBEDDING_PROVIDER || config.embedding.provider).toLowerCase() as EmbeddingProviderName;
+}
+
+// Get the configured embedding provider
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return createProvider(getEmbeddingProviderName());
+}
+
+/**
+ * embedding_version stored with vectors from a provider, e.g. "v2:local:local-ngram-projection"
+ * Providers embed into different vector spaces, so switching EMBEDDING_PROVIDER changes the version
+ * (and re-embeds the catalog) just like bumping config.embedding.version does.
+ * @param providerName - Defaults to the configured provider: the version recommendations compare against
+ */
+export function getEmbeddingVersion(providerName: EmbeddingProviderName = getEmbeddingProviderName()): string {
+  return `${config.embedding.version}:${providerName}:${config.embedding.model}`;
+}
+
+// Circuit breaker around the primary provider, shared by every caller of embedWithFallback
+const breaker = { failures: 0, openedAt: 0 };
+
+/**
+ * Embed with the configured provider, switching to config.embedding.fallback_provider while it keeps failing
+ * After circuit_breaker.failure_threshold failures in a row the breaker opens: calls go straight to the
+ * fallback for cooldown_ms, then the next call tries the primary again (one failure re-opens it).
+ * Fallback vectors live in another vector space, so they carry the fallback provider's version: they are
+ * never compared with primary vectors and background re-embedding replaces them.
+ * @throws when the primary fails and there is no fallback provider
+ * @returns The vectors, the provider that made them and the embedding_version to store with them
+ */
+export async function embedWithFallback(
+  texts: string[]
+): Promise<{ embeddings: number[][]; provider: EmbeddingProviderName; version: string }> {
+  const primary = getEmbeddingProvider();
+  const { fallback_provider, circuit_breaker } = config.embedding;
+  const fallback = fallback_provider !== 'none' && fallback_provider !== primary.name ? fallback_provider : null;
+  const useFallback = async () => ({
+    embeddings: await createProvider(fallback!).embed(texts),
+    provider: fallback!,
+    version: getEmbeddingVersion(fallback!),
+  });
+
+  const open = breaker.failures >= circuit_breaker.failure_threshold
+    && Date.now() - breaker.openedAt < circuit_breaker.cooldown_ms;
+  if (open && fallback) {
+    return useFallback();
+  }
+
+  try {
+    const embeddings = await primary.embed(texts);
+    if (breaker.failures >= circuit_breaker.failure_threshold) {
+      console.log(`🔌 Embedding provider ${primary.name} recovered - circuit closed`);
+    }
+    breaker.failures = 0;
+    return { embeddings, provider: primary.name, version: getEmbeddingVersion(primary.name) };
+  } catch (error: any) {
+    breaker.failures++;
+    if (breaker.failures >= circuit_breaker.failure_threshold) {
+      breaker.openedAt = Date.now();
+      console.warn(`🔌 Embedding provider ${primary.name} failed ${breaker.failures} times in a row - circuit open for ${circuit_breaker.cooldown_ms}ms`);
+    }
+    if (!fallback) throw error;
+    console.warn(`⚠️  Embedding with ${primary.name} failed (${error.message}) - using fallback ${fallback}`);
+    return useFallback();
+  }
+}
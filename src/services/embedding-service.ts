@@ -1,26 +1,106 @@
-import type { CatalogProduct } from '../types/index.js';
+import type { CatalogProduct, EmbeddingProviderName, LLMBatchOutcome, LLMOutputStats, LLMSchema } from '../types/index.js';
 import { config } from '../config.js';
+import { completeWithSchema, getLLMProviderName } from './llm-service.js';
+import { embedWithFallback, getEmbeddingProvider, getEmbeddingVersion } from './embedding-provider.js';
+import { mergeTags, normalizeTags } from './tag-service.js';
 
-// Juspay Grid AI endpoint
-const GRID_AI_URL = 'https://grid.ai.juspay.net/v1/chat/completions';
+// Hooks for job tracking while batches run
+export interface BatchProgressOptions {
+  // Throws to abort the run between batches
+  checkCancelled?: () => Promise<void>;
+  onBatchComplete?: (batchesDone: number, totalBatches: number) => Promise<void>;
+  // Accumulates the run's LLM output validation counts (recorded on the job step)
+  llmOutput?: LLMOutputStats;
+  onBatchOutcome?: (outcome: LLMBatchOutcome) => Promise<void>;
+}
 
-// Get API key lazily (after dotenv loads)
-function getGridAIKey(): string {
-  const key = process.env.GRID_AI_API_KEY || '';
-  if (!key) {
-    throw new Error('GRID_AI_API_KEY not found in environment variables');
-  }
-  return key;
+// Tags, description and embedding of a product, ready to save
+export interface ProductEmbeddingData {
+  embedding: number[] | null; // null = re-embed in background
+  embedding_version: string | null;
+  tags: string[];
+  description: string;
+}
+
+const PRODUCT_TAGGING_SYSTEM_PROMPT = `You are a product analysis AI. For each product, generate:
+1. Single primary product type tag based on the TITLE (e.g., "t-shirt", "jeans", "sneakers", "jacket", "hoodie", "dress", "shorts") - identify what product it actually is from the title
+2. Semantic description (15-20 words capturing essence)
+
+Return ONLY valid JSON array with this exact structure:
+[{"id": 1, "tags": ["t-shirt"], "description": "semantic description here"}]
+
+IMPORTANT: Analyze the product TITLE to determine the actual product type. Ignore the category field.`;
+
+// Product tagging reply: one entry per requested product with at least one tag and a description
+function productTagsSchema(
+  productsJson: Array<{ id: number; title: string }>
+): LLMSchema<{ tags: string[]; description: string }> {
+  const requested = new Set(productsJson.map(p => String(p.id)));
+
+  return {
+    shape: 'array',
+    keys: Array.from(requested),
+    validate(parsed: any[]) {
+      const items = new Map<string, { tags: string[]; description: string }>();
+      const errors: string[] = [];
+      for (const entry of parsed) {
+        const key = String(entry?.id);
+        if (!requested.has(key)) {
+          errors.push(`id ${key} is not one of the requested products`);
+          continue;
+        }
+        const tags = Array.isArray(entry.tags)
+          ? entry.tags.filter((tag: any) => typeof tag === 'string' && tag.trim())
+          : [];
+        if (tags.length === 0) {
+          errors.push(`id ${key}: "tags" must be a non-empty array of strings`);
+          continue;
+        }
+        if (typeof entry.description !== 'string' || !entry.description.trim()) {
+          errors.push(`id ${key}: "description" must be a non-empty string`);
+          continue;
+        }
+        if (!items.has(key)) items.set(key, { tags, description: entry.description.trim() });
+      }
+      return { items, errors };
+    },
+    repair(keys, errors) {
+      const retry = productsJson.filter(p => keys.includes(String(p.id)));
+      return {
+        stage: 'product_tagging',
+        system: PRODUCT_TAGGING_SYSTEM_PROMPT,
+        prompt: `Your previous answer was missing or invalid for these products:\n${errors.slice(0, 20).join('\n')}\n\n` +
+          `Analyze ONLY these ${retry.length} products:\n${JSON.stringify(retry, null, 2)}`,
+        temperature: 0.3,
+        maxTokens: 16000,
+        data: { products: retry },
+      };
+    },
+  };
 }
 
-// Batch process products with LLM - send 50 at once
+/**
+ * Batch process products with LLM - config.llm_batches.batch_size at once
+ * Each product's tags and description are validated on their own; products the LLM (and its repair
+ * request) got wrong use the rule-based tags, the rest of the batch keeps the LLM's.
+ * Embeddings come from the configured provider, or its fallback while the circuit breaker is open;
+ * when both fail the batch keeps its tags and is embedded in the background later.
+ * @param stats - Accumulates the batch's LLM output counts
+ */
 export async function batchProcessProductsWithLLM(
-  products: CatalogProduct[]
-): Promise<Array<{ id: number; embedding: number[]; tags: string[]; semanticDescription: string }>> {
-  const results: Array<{ id: number; embedding: number[]; tags: string[]; semanticDescription: string }> = [];
+  products: CatalogProduct[],
+  stats?: LLMOutputStats
+): Promise<{
+  products: Map<number, ProductEmbeddingData>;
+  llmTagged: number;
+  embedder: EmbeddingProviderName | 'none';
+  errors: string[];
+}> {
+  let parsedData = new Map<string, { tags: string[]; description: string }>();
+  const errors: string[] = [];
   
   try {
-    // Create prompt with all 50 products
+    // Create prompt with the whole batch
     const productsJson = products.map(p => ({
       id: p.id,
       title: p.title,
@@ -30,98 +110,59 @@ export async function batchProcessProductsWithLLM(
       tags: p.tags || []
     }));
     
-    const response = await fetch(GRID_AI_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${getGridAIKey()}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a product analysis AI. For each product, generate:
-1. Single primary product type tag based on the TITLE (e.g., "t-shirt", "jeans", "sneakers", "jacket", "hoodie", "dress", "shorts") - identify what product it actually is from the title
-2. Semantic description (15-20 words capturing essence)
-
-Return ONLY valid JSON array with this exact structure:
-[{"id": 1, "tags": ["t-shirt"], "description": "semantic description here"}]
-
-IMPORTANT: Analyze the product TITLE to determine the actual product type. Ignore the category field.`
-          },
-          {
-            role: 'user',
-            content: `Analyze these ${products.length} products:\n${JSON.stringify(productsJson, null, 2)}`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 16000
-      })
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`❌ Grid AI API Error (${response.status}):`, errorBody);
-      throw new Error(`Grid AI error: ${response.status} - ${errorBody}`);
-    }
-
-    const data = await response.json();
-    const llmResponse = data.choices?.[0]?.message?.content || '[]';
-    
-    // Parse LLM response
-    let parsedData: Array<{ id: number; tags: string[]; description: string }> = [];
-    try {
-      // Remove markdown code blocks if present
-      let jsonText = llmResponse.trim();
-      if (jsonText.startsWith('```')) {
-        // Remove ```json at start and ``` at end
-        jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-      }
-      
-      // Extract JSON array
-      const jsonMatch = jsonText.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        parsedData = JSON.parse(jsonMatch[0]);
-        console.log(`✅ Parsed ${parsedData.length} products from LLM`);
-      } else {
-        console.warn('⚠️  No JSON array found in LLM response');
-      }
-    } catch (e) {
-      console.warn('⚠️  Failed to parse LLM response:', (e as Error).message);
-    }
+    const result = await completeWithSchema({
+      stage: 'product_tagging',
+      system: PRODUCT_TAGGING_SYSTEM_PROMPT,
+      prompt: `Analyze these ${products.length} products:\n${JSON.stringify(productsJson, null, 2)}`,
+      temperature: 0.3,
+      maxTokens: 16000,
+      data: { products: productsJson },
+    }, productTagsSchema(productsJson), stats);
     
-    // Process each product
-    for (const product of products) {
-      const llmData = parsedData.find(d => d.id === product.id);
-      const tags = llmData?.tags || extractFallbackTags(product);
-      const description = llmData?.description || createProductText(product);
-      
-      // Generate embedding from semantic description + original text
-      const embedding = generateEmbeddingFromText(description + ' ' + createProductText(product));
-      
-      results.push({
-        id: product.id,
-        embedding,
-        tags,
-        semanticDescription: description
-      });
+    parsedData = result.items;
+    console.log(`✅ Parsed ${parsedData.size}/${products.length} products from LLM`);
+    if (result.missing.length > 0) {
+      console.warn(`⚠️  Using fallback tags for ${result.missing.length} products the LLM got wrong`);
     }
-    
   } catch (error: any) {
+    errors.push(`LLM: ${error.message}`);
     console.error('❌ LLM batch processing failed:', error.message);
-    // Fallback: process without LLM
-    for (const product of products) {
-      results.push({
-        id: product.id,
-        embedding: generateEmbeddingFromText(createProductText(product)),
-        tags: extractFallbackTags(product),
-        semanticDescription: createProductText(product)
-      });
-    }
+    console.log('⚠️  Using fallback tags and descriptions for this batch');
   }
   
-  return results;
+  // Process each product - LLM tags (or the rule-based primary tag) merged with the normalized tag set
+  const tagged = products.map(product => {
+    const llmData = parsedData.get(String(product.id));
+    const primaryTags = llmData ? llmData.tags : extractFallbackTags(product);
+    return {
+      id: product.id,
+      tags: mergeTags(primaryTags, normalizeTags(product)),
+      description: llmData?.description || createProductText(product),
+    };
+  });
+  
+  // Generate embeddings from semantic description + original text in one provider call
+  let embedded: Awaited<ReturnType<typeof embedWithFallback>> | null = null;
+  try {
+    embedded = await embedWithFallback(
+      products.map((product, i) => buildEmbeddingText(product, tagged[i]!.description))
+    );
+  } catch (error: any) {
+    errors.push(`Embedding: ${error.message}`);
+    console.error('❌ Embedding failed - batch will be re-embedded in the background:', error.message);
+  }
+  
+  return {
+    products: new Map(tagged.map((t, i) => [t.id, {
+      embedding: embedded ? embedded.embeddings[i]! : null,
+      embedding_version: embedded ? embedded.version : null,
+      tags: t.tags,
+      description: t.description,
+    }])),
+    llmTagged: parsedData.size,
+    embedder: embedded ? embedded.provider : 'none',
+    errors,
+  };
 }
 
 // Extract tags without LLM (fallback)
@@ -149,7 +190,7 @@ function isStopWord(word: string): boolean {
 }
 
 // Create a text representation of the product for embedding
-function createProductText(product: CatalogProduct): string {
+export function createProductText(product: CatalogProduct): string {
   const parts = [
     product.title,
     product.category,
@@ -157,45 +198,17 @@ function createProductText(product: CatalogProduct): string {
     `price: $${product.price}`,
   ];
   
-  if (product.tags) {
+  if (product.tags && product.tags.length > 0) {
     parts.push(`tags: ${product.tags.join(', ')}`);
   }
   
   return parts.filter(Boolean).join(' | ');
 }
 
-// Fallback embedding generation using text hashing with better semantic distribution
-function generateEmbeddingFromText(text: string): number[] {
-  const dimensions = config.embedding.dimensions;
-  const embedding = new Array(dimensions).fill(0);
-  
-  // Create a more sophisticated embedding based on text characteristics
-  const words = text.toLowerCase().split(/\s+/);
-  
-  // Use multiple hash functions for better distribution
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    for (let j = 0; j < word.length; j++) {
-      const charCode = word.charCodeAt(j);
-      
-      // Multiple hash functions
-      const index1 = (charCode * (i + 1) * (j + 1)) % dimensions;
-      const index2 = ((charCode * 31 + i * 17 + j * 13) % dimensions);
-      const index3 = ((charCode ^ (i << 2) ^ (j << 3)) % dimensions);
-      
-      embedding[index1] += Math.sin(charCode + i + j) * 0.3;
-      embedding[index2] += Math.cos(charCode * i) * 0.2;
-      embedding[index3] += Math.sin(charCode * j) * 0.1;
-    }
-  }
-  
-  // Add text length and word count features
-  embedding[0] += text.length / 1000;
-  embedding[1] += words.length / 100;
-  
-  // Normalize the embedding
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
+// Text that gets embedded: semantic description (when it adds anything) + product text
+export function buildEmbeddingText(product: CatalogProduct, description?: string | null): string {
+  const productText = createProductText(product);
+  return description && description !== productText ? `${description} ${productText}` : productText;
 }
 
 // Compute cosine similarity between two embeddings
@@ -223,55 +236,77 @@ export function cosineSimilarity(embedding1: number[], embedding2: number[]): nu
   return dotProduct / magnitude;
 }
 
-// Batch generate embeddings - process 50 products at a time with LLM
+/**
+ * Batch generate embeddings - config.llm_batches.batch_size products per LLM request,
+ * config.llm_batches.concurrency requests in flight
+ * Products whose embedding failed get a null embedding and are picked up by background re-embedding.
+ * Batches finish out of order; cancellation is checked before each batch starts.
+ */
 export async function batchGenerateEmbeddings(
-  products: CatalogProduct[]
-): Promise<Map<number, { embedding: number[]; tags: string[] }>> {
-  const results = new Map<number, { embedding: number[]; tags: string[] }>();
-  const batchSize = 50; // Process 50 products at once
+  products: CatalogProduct[],
+  options: BatchProgressOptions = {}
+): Promise<Map<number, ProductEmbeddingData>> {
+  const results = new Map<number, ProductEmbeddingData>();
+  const { batch_size: batchSize, concurrency } = config.llm_batches;
+  const totalBatches = Math.ceil(products.length / batchSize);
   
-  console.log(`\n🧠 Processing ${products.length} products in batches of ${batchSize}`);
-  console.log(`📡 Using Juspay Grid AI (no rate limiting!)\n`);
+  console.log(`\n🧠 Processing ${products.length} products in ${totalBatches} batches of ${batchSize}, ${concurrency} at a time`);
+  console.log(`📡 Using LLM provider: ${getLLMProviderName('product_tagging')}`);
+  console.log(`🧮 Using embedding provider: ${getEmbeddingProvider().name} (${getEmbeddingVersion()})\n`);
   
-  for (let i = 0; i < products.length; i += batchSize) {
-    const batch = products.slice(i, i + batchSize);
-    const batchNum = Math.floor(i / batchSize) + 1;
-    const totalBatches = Math.ceil(products.length / batchSize);
-    
-    console.log(`📦 Processing batch ${batchNum}/${totalBatches} (${batch.length} products)...`);
-    
-    try {
-      const batchResults = await batchProcessProductsWithLLM(batch);
+  let nextBatch = 0;
+  let batchesDone = 0;
+  let stopError: unknown = null;
+  
+  // Each worker takes the next batch until none are left or one of them was stopped
+  const worker = async () => {
+    while (stopError === null && nextBatch < totalBatches) {
+      const batchIndex = nextBatch++;
+      const batch = products.slice(batchIndex * batchSize, (batchIndex + 1) * batchSize);
+      const batchNum = batchIndex + 1;
+      const batchStart = Date.now();
       
-      // Store results
-      for (const result of batchResults) {
-        results.set(result.id, {
-          embedding: result.embedding,
-          tags: result.tags
-        });
+      try {
+        // Cancellation checkpoint between batches
+        await options.checkCancelled?.();
+      } catch (error) {
+        stopError = error;
+        return;
       }
       
-      const progress = Math.min(i + batchSize, products.length);
-      const percentage = Math.round((progress / products.length) * 100);
-      console.log(`✅ Batch ${batchNum} complete | Total: ${progress}/${products.length} (${percentage}%)\n`);
-      
-      // Rate limiting: wait 1 second between batches
-      if (i + batchSize < products.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      console.log(`📦 Processing batch ${batchNum}/${totalBatches} (${batch.length} products)...`);
+      const batchResult = await batchProcessProductsWithLLM(batch, options.llmOutput);
+      for (const [id, data] of batchResult.products) {
+        results.set(id, data);
       }
       
-    } catch (error: any) {
-      console.error(`❌ Batch ${batchNum} failed:`, error.message);
-      console.log(`⚠️  Using fallback for batch ${batchNum}\n`);
-      
-      // Fallback for failed batch
-      for (const product of batch) {
-        results.set(product.id, {
-          embedding: generateEmbeddingFromText(createProductText(product)),
-          tags: extractFallbackTags(product)
-        });
+      const outcome: LLMBatchOutcome = {
+        batch: batchNum,
+        products: batch.length,
+        status: batchResult.embedder === 'none' ? 'embedding_failed'
+          : batchResult.llmTagged === batch.length ? 'completed'
+          : batchResult.llmTagged > 0 ? 'partial' : 'fallback',
+        llm_tagged: batchResult.llmTagged,
+        embedder: batchResult.embedder,
+        duration_ms: Date.now() - batchStart,
+        ...(batchResult.errors.length > 0 ? { error: batchResult.errors.join('; ') } : {}),
+      };
+      const done = ++batchesDone;
+      console.log(`✅ Batch ${batchNum} ${outcome.status} | ${done}/${totalBatches} batches done\n`);
+
+      try {
+        await options.onBatchOutcome?.(outcome);
+        await options.onBatchComplete?.(done, totalBatches);
+      } catch (error) {
+        stopError = error;
+        return;
       }
     }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, totalBatches) }, worker));
+  if (stopError !== null) {
+    throw stopError;
   }
   
   console.log(`\n✅ All ${products.length} products processed!\n`);
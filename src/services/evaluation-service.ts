@@ -0,0 +1,327 @@
+import { pool } from '../database/db.js';
+import { config } from '../config.js';
+import type {
+  EvaluationBasket,
+  EvaluationConfig,
+  EvaluationMetrics,
+  EvaluationReport,
+  EvaluationRun,
+  RecommendationResult,
+} from '../types/index.js';
+import { getRecommendations } from './recommendation-service.js';
+import { getPrecomputedRecommendations } from './recommendation-list-service.js';
+import { candidateSimilarity } from './diversity-service.js';
+
+// Held-out baskets or evaluation configs that can't be replayed
+export class EvaluationInputError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid evaluation input: ${errors.join('; ')}`);
+    this.name = 'EvaluationInputError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Held-out baskets from the shop's purchase events
+ * A basket is an order (order_id) or, for events without one, a session - as in the co-purchase graph.
+ * Only baskets with at least two distinct products can be replayed.
+ * @param since - First purchase time of the held-out period; the precompute being evaluated should predate it
+ */
+export async function loadHeldOutBaskets(
+  shopId: string,
+  since: Date,
+  until: Date = new Date(),
+  limit: number = 500
+): Promise<EvaluationBasket[]> {
+  const result = await pool.query(
+    `SELECT COALESCE(order_id, 'session:' || session_id) AS basket_id,
+            ARRAY_AGG(DISTINCT product_id) AS product_ids
+     FROM events
+     WHERE shop_id = $1
+       AND event_type = 'purchase'
+       AND occurred_at >= $2
+       AND occurred_at < $3
+     GROUP BY 1
+     HAVING COUNT(DISTINCT product_id) >= 2
+     ORDER BY MIN(occurred_at) DESC
+     LIMIT $4`,
+    [shopId, since, until, limit]
+  );
+
+  return result.rows.map((row: any) => ({
+    basket_id: row.basket_id,
+    product_ids: row.product_ids.map(Number),
+  }));
+}
+
+/**
+ * Validate baskets read from a file: [{ "basket_id": "#1001", "product_ids": [1, 2] }] or [[1, 2], [3, 4]]
+ * Baskets with fewer than two distinct products are dropped - there is nothing to predict.
+ */
+export function parseBaskets(data: any): EvaluationBasket[] {
+  if (!Array.isArray(data)) {
+    throw new EvaluationInputError(['baskets must be an array']);
+  }
+
+  const errors: string[] = [];
+  const baskets: EvaluationBasket[] = [];
+  data.forEach((entry: any, i: number) => {
+    const ids = Array.isArray(entry) ? entry : entry?.product_ids;
+    if (!Array.isArray(ids) || ids.some((id: any) => !Number.isInteger(Number(id)) || Number(id) <= 0)) {
+      errors.push(`basket ${i}: product_ids must be an array of product ids`);
+      return;
+    }
+    const productIds = Array.from(new Set<number>(ids.map(Number)));
+    if (productIds.length >= 2) {
+      baskets.push({ basket_id: String(entry?.basket_id ?? entry?.order_id ?? i), product_ids: productIds });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new EvaluationInputError(errors);
+  }
+  return baskets;
+}
+
+// Validate an evaluation config read from a file
+export function parseEvaluationConfig(data: any, fallbackName: string): EvaluationConfig {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new EvaluationInputError([`${fallbackName}: config must be an object`]);
+  }
+  if (data.ranking_mode !== undefined && !['llm', 'weighted', 'hybrid'].includes(data.ranking_mode)) {
+    errors.push('ranking_mode must be one of: llm, weighted, hybrid');
+  }
+  if (data.mode !== undefined && !['precomputed', 'live'].includes(data.mode)) {
+    errors.push('mode must be one of: precomputed, live');
+  }
+  if (data.recommendation_type !== undefined && (
+    !Array.isArray(data.recommendation_type) || data.recommendation_type.length === 0 ||
+    data.recommendation_type.some((type: any) => type !== 'upsell' && type !== 'crosssell')
+  )) {
+    errors.push('recommendation_type must be a non-empty array of upsell / crosssell');
+  }
+  if (data.candidate_pool_size !== undefined && (!Number.isInteger(data.candidate_pool_size) || data.candidate_pool_size < 1)) {
+    errors.push('candidate_pool_size must be a positive integer');
+  }
+  if (data.config !== undefined && (typeof data.config !== 'object' || Array.isArray(data.config))) {
+    errors.push('config must be an object of config overrides');
+  }
+  if (errors.length > 0) {
+    throw new EvaluationInputError(errors.map(error => `${data.name || fallbackName}: ${error}`));
+  }
+  return { ...data, name: data.name || fallbackName };
+}
+
+// Deep-merge overrides into config objects in place (arrays and scalars are replaced)
+function mergeInto(target: any, overrides: Record<string, any>): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && target[key] && typeof target[key] === 'object') {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+// Run fn with the config overrides applied, restoring config afterwards
+async function withConfigOverrides<T>(overrides: Record<string, any> | undefined, fn: () => Promise<T>): Promise<T> {
+  if (!overrides) return fn();
+
+  const original = structuredClone(config);
+  mergeInto(config, overrides);
+  try {
+    return await fn();
+  } finally {
+    for (const key of Object.keys(original) as Array<keyof typeof config>) {
+      (config as any)[key] = original[key];
+    }
+  }
+}
+
+// Binary-relevance NDCG of a ranked list
+export function ndcgAtK(ranked: number[], relevant: Set<number>, k: number): number {
+  const dcg = ranked.slice(0, k).reduce((sum, id, i) => sum + (relevant.has(id) ? 1 / Math.log2(i + 2) : 0), 0);
+  let idcg = 0;
+  for (let i = 0; i < Math.min(k, relevant.size); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+  return idcg > 0 ? dcg / idcg : 0;
+}
+
+// 1 - mean pairwise similarity of a list (embedding cosine, else title stem); lists under two products are skipped
+export function intraListDiversity(ids: number[], productById: Map<number, any>): number | null {
+  const products = ids.map(id => productById.get(id)).filter(Boolean);
+  if (products.length < 2) return null;
+
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < products.length; i++) {
+    for (let j = i + 1; j < products.length; j++) {
+      total += candidateSimilarity(products[i], products[j]);
+      pairs++;
+    }
+  }
+  return 1 - total / pairs;
+}
+
+const round = (value: number): number => Number(value.toFixed(4));
+
+/**
+ * Replay held-out baskets through the recommendation pipeline with one configuration
+ * Leave-one-out: every basket product is a query on its own, and the rest of the basket is what a good
+ * recommendation list contains. The configured lists are concatenated in order, de-duplicated and cut to k.
+ */
+export async function evaluateConfiguration(
+  shopId: string,
+  baskets: EvaluationBasket[],
+  evaluation: EvaluationConfig,
+  k: number = config.limits.final_recommendations
+): Promise<EvaluationRun> {
+  const types = evaluation.recommendation_type || ['crosssell'];
+  const rankingMode = evaluation.ranking_mode || config.ranking.default_mode;
+  const options = {
+    weights: evaluation.weights,
+    model: evaluation.model,
+    candidate_pool_size: evaluation.candidate_pool_size,
+  };
+
+  return withConfigOverrides(evaluation.config, async () => {
+    const lists: number[][] = [];
+    const totals = { precision: 0, recall: 0, ndcg: 0, hits: 0, empty: 0, latency: 0 };
+    let errors = 0;
+
+    for (const basket of baskets) {
+      for (const sourceId of basket.product_ids) {
+        const relevant = new Set(basket.product_ids.filter(id => id !== sourceId));
+        const start = Date.now();
+        let result: RecommendationResult;
+        try {
+          const precomputed = evaluation.mode === 'precomputed'
+            ? await getPrecomputedRecommendations(shopId, [sourceId], types, options)
+            : null;
+          result = precomputed
+            ? precomputed.recommendations
+            : await getRecommendations(shopId, [sourceId], types, rankingMode, options);
+        } catch (error: any) {
+          console.error(`⚠️  Evaluation query ${sourceId} (basket ${basket.basket_id}) failed:`, error.message);
+          errors++;
+          continue;
+        }
+        totals.latency += Date.now() - start;
+
+        const ranked = Array.from(new Set(types.flatMap(type => result[type].map(p => Number(p.id))))).slice(0, k);
+        const hits = ranked.filter(id => relevant.has(id)).length;
+        lists.push(ranked);
+        totals.precision += hits / k;
+        totals.recall += hits / relevant.size;
+        totals.ndcg += ndcgAtK(ranked, relevant, k);
+        totals.hits += hits > 0 ? 1 : 0;
+        totals.empty += ranked.length === 0 ? 1 : 0;
+      }
+    }
+
+    // Coverage and diversity need the recommended products themselves
+    const recommendedIds = Array.from(new Set(lists.flat()));
+    const [products, active] = await Promise.all([
+      pool.query(
+        `SELECT id, title, embedding, embedding_version FROM products WHERE shop_id = $1 AND id = ANY($2::bigint[])`,
+        [shopId, recommendedIds]
+      ),
+      pool.query(
+        `SELECT COUNT(*)::int AS count FROM products WHERE shop_id = $1 AND status = 'active' AND stock > 0`,
+        [shopId]
+      ),
+    ]);
+    const productById = new Map<number, any>(products.rows.map((p: any) => [Number(p.id), p]));
+    const diversities = lists
+      .map(ids => intraListDiversity(ids, productById))
+      .filter((value): value is number => value !== null);
+
+    const queries = lists.length;
+    const mean = (total: number) => (queries > 0 ? round(total / queries) : 0);
+    const metrics: EvaluationMetrics = {
+      queries,
+      precision_at_k: mean(totals.precision),
+      recall_at_k: mean(totals.recall),
+      ndcg_at_k: mean(totals.ndcg),
+      hit_rate_at_k: mean(totals.hits),
+      coverage: active.rows[0].count > 0 ? round(recommendedIds.length / active.rows[0].count) : 0,
+      diversity: diversities.length > 0 ? round(diversities.reduce((a, b) => a + b, 0) / diversities.length) : 0,
+      empty_rate: mean(totals.empty),
+      avg_latency_ms: queries > 0 ? Math.round(totals.latency / queries) : 0,
+    };
+
+    return { config: evaluation, metrics, errors };
+  });
+}
+
+/**
+ * Evaluate several configurations on the same baskets
+ * Configurations run one after another - config overrides apply to the whole process while one runs.
+ * @param log - Progress output (the CLI silences the pipeline's own console.log)
+ */
+export async function runEvaluation(
+  shopId: string,
+  baskets: EvaluationBasket[],
+  evaluations: EvaluationConfig[],
+  k: number = config.limits.final_recommendations,
+  log: (message: string) => void = console.log
+): Promise<EvaluationReport> {
+  const runs: EvaluationRun[] = [];
+  for (const evaluation of evaluations) {
+    log(`🧪 Evaluating "${evaluation.name}" on ${baskets.length} baskets...`);
+    const run = await evaluateConfiguration(shopId, baskets, evaluation, k);
+    log(`✅ "${evaluation.name}": NDCG@${k} ${run.metrics.ndcg_at_k}, recall@${k} ${run.metrics.recall_at_k}`);
+    runs.push(run);
+  }
+
+  return { shop_id: shopId, k, baskets: baskets.length, generated_at: new Date().toISOString(), runs };
+}
+
+/**
+ * Markdown table of one or more reports, one column per run
+ * Runs after the first show their change against the first, so two configurations read side by side.
+ */
+export function renderEvaluationMarkdown(reports: EvaluationReport[]): string {
+  const runs = reports.flatMap(report => report.runs);
+  const k = reports[0]?.k ?? config.limits.final_recommendations;
+  const rows: Array<[string, keyof EvaluationMetrics]> = [
+    ['Queries', 'queries'],
+    [`Precision@${k}`, 'precision_at_k'],
+    [`Recall@${k}`, 'recall_at_k'],
+    [`NDCG@${k}`, 'ndcg_at_k'],
+    [`Hit rate@${k}`, 'hit_rate_at_k'],
+    ['Coverage', 'coverage'],
+    ['Diversity', 'diversity'],
+    ['Empty lists', 'empty_rate'],
+    ['Avg latency (ms)', 'avg_latency_ms'],
+  ];
+
+  const format = (value: number, baseline: number | undefined): string => {
+    if (baseline === undefined) return String(value);
+    const delta = round(value - baseline);
+    return `${value} (${delta >= 0 ? '+' : ''}${delta})`;
+  };
+
+  const lines = [
+    `# Offline evaluation - ${reports.map(report => report.shop_id).filter((id, i, ids) => ids.indexOf(id) === i).join(', ')}`,
+    '',
+    `Baskets: ${reports.map(report => report.baskets).join(' / ')} · k = ${k}`,
+    '',
+    `| Metric | ${runs.map(run => run.config.name).join(' | ')} |`,
+    `|--------|${runs.map(() => '------').join('|')}|`,
+    ...rows.map(([label, key]) =>
+      `| ${label} | ${runs.map((run, i) => format(run.metrics[key], i > 0 ? runs[0]!.metrics[key] : undefined)).join(' | ')} |`
+    ),
+  ];
+
+  const failed = runs.filter(run => run.errors > 0);
+  if (failed.length > 0) {
+    lines.push('', ...failed.map(run => `⚠️  ${run.config.name}: ${run.errors} queries failed and were left out`));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,134 @@
+import { pool } from '../database/db.js';
+import type { BehaviorEvent, BehaviorEventType, EventIngestResult } from '../types/index.js';
+import { config } from '../config.js';
+
+export const EVENT_TYPES: BehaviorEventType[] = ['view', 'add_to_cart', 'purchase'];
+
+function toId(value: any): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// Validate one raw event; shop_id falls back to the request-level shop_id
+export function validateEvent(raw: any, defaultShopId?: string): { event?: BehaviorEvent; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { errors: ['event must be an object'] };
+  }
+
+  const shopId = raw.shop_id ?? defaultShopId;
+  if (typeof shopId !== 'string' || !shopId.trim()) errors.push('shop_id is required');
+
+  if (!EVENT_TYPES.includes(raw.event_type)) {
+    errors.push(`event_type must be one of: ${EVENT_TYPES.join(', ')}`);
+  }
+
+  const productId = toId(raw.product_id);
+  if (productId === null) errors.push('product_id must be a positive integer');
+
+  const variantId = raw.variant_id === undefined || raw.variant_id === null ? null : toId(raw.variant_id);
+  if (raw.variant_id !== undefined && raw.variant_id !== null && variantId === null) {
+    errors.push('variant_id must be a positive integer');
+  }
+
+  if (typeof raw.session_id !== 'string' || !raw.session_id.trim()) errors.push('session_id is required');
+
+  const orderId = raw.order_id === undefined || raw.order_id === null ? null : String(raw.order_id).trim();
+  if (orderId === '') errors.push('order_id must not be empty');
+
+  const quantity = raw.quantity === undefined ? 1 : Number(raw.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) errors.push('quantity must be a positive integer');
+
+  const occurredAt = raw.timestamp ? new Date(raw.timestamp) : new Date();
+  if (isNaN(occurredAt.getTime())) errors.push('timestamp must be an ISO 8601 date');
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    event: {
+      shop_id: shopId,
+      event_type: raw.event_type,
+      product_id: productId as number,
+      variant_id: variantId,
+      session_id: raw.session_id,
+      order_id: orderId,
+      quantity,
+      occurred_at: occurredAt,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Validate and store behavioural events
+ * @param payload - A single event, or { shop_id?, events: [...] }
+ */
+export async function recordEvents(payload: any): Promise<EventIngestResult> {
+  const rawEvents: any[] = Array.isArray(payload?.events) ? payload.events : [payload];
+  const events: BehaviorEvent[] = [];
+  const errors: EventIngestResult['errors'] = [];
+
+  rawEvents.forEach((raw, index) => {
+    const { event, errors: eventErrors } = validateEvent(raw, payload?.shop_id);
+    if (event) {
+      events.push(event);
+    } else {
+      errors.push({ index, errors: eventErrors });
+    }
+  });
+
+  if (events.length > 0) {
+    await pool.query(
+      `INSERT INTO events (shop_id, event_type, product_id, variant_id, session_id, order_id, quantity, occurred_at)
+       SELECT * FROM UNNEST($1::text[], $2::text[], $3::bigint[], $4::bigint[], $5::text[], $6::text[], $7::int[], $8::timestamptz[])`,
+      [
+        events.map(e => e.shop_id),
+        events.map(e => e.event_type),
+        events.map(e => e.product_id),
+        events.map(e => e.variant_id),
+        events.map(e => e.session_id),
+        events.map(e => e.order_id),
+        events.map(e => e.quantity),
+        events.map(e => e.occurred_at),
+      ]
+    );
+  }
+
+  return { accepted: events.length, rejected: errors.length, errors };
+}
+
+/**
+ * purchase_score from time-decayed, weighted event counts, normalised to [0, 1] per shop
+ * score = ln(1 + Σ weight(type) · quantity · 0.5^(age / half_life)) / ln(1 + shop max)
+ * Products without events in the lookback window score 0
+ */
+export async function computePurchaseScores(client: any, shopId: string, productId: number | null = null): Promise<void> {
+  const { weights, half_life_days, lookback_days } = config.events;
+
+  await client.query(
+    `WITH decayed AS (
+       SELECT product_id,
+              SUM(
+                quantity
+                * CASE event_type WHEN 'view' THEN $2::float WHEN 'add_to_cart' THEN $3::float WHEN 'purchase' THEN $4::float ELSE 0 END
+                * POWER(0.5, EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - occurred_at)) / 86400.0 / $5::float)
+              ) AS raw
+       FROM events
+       WHERE shop_id = $1
+         AND occurred_at > CURRENT_TIMESTAMP - make_interval(days => $6::int)
+       GROUP BY product_id
+     ),
+     scored AS (
+       SELECT p.id,
+              COALESCE(LN(1 + d.raw) / NULLIF(LN(1 + MAX(d.raw) OVER ()), 0), 0) AS score
+       FROM products p
+       LEFT JOIN decayed d ON d.product_id = p.id
+       WHERE p.shop_id = $1
+     )
+     UPDATE products p
+     SET purchase_score = scored.score
+     FROM scored
+     WHERE p.shop_id = $1 AND p.id = scored.id AND ($7::bigint IS NULL OR p.id = $7)`,
+    [shopId, weights.view, weights.add_to_cart, weights.purchase, half_life_days, lookback_days, productId]
+  );
+}
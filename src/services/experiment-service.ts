@@ -0,0 +1,290 @@
+import { pool } from '../database/db.js';
+import type {
+  Experiment,
+  ExperimentArm,
+  ExperimentArmReport,
+  ExperimentAssignment,
+  ExperimentStatus,
+  RankingMode,
+  RankingWeights,
+  RecommendationOptions,
+} from '../types/index.js';
+import { config } from '../config.js';
+import { invalidateShopCache } from './cache-service.js';
+import { createHash } from 'crypto';
+
+const EXPERIMENT_STATUSES: ExperimentStatus[] = ['running', 'paused', 'completed'];
+const RANKING_MODES: RankingMode[] = ['llm', 'weighted', 'hybrid'];
+
+// The request body is not a valid experiment
+export class ExperimentValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid experiment: ${errors.join('; ')}`);
+    this.name = 'ExperimentValidationError';
+    this.errors = errors;
+  }
+}
+
+function validateArm(raw: any, index: number, errors: string[]): ExperimentArm | null {
+  const prefix = `arms[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return null;
+  }
+
+  const arm: ExperimentArm = { name: raw.name, traffic: raw.traffic ?? 1 };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push(`${prefix}.name is required`);
+  if (typeof arm.traffic !== 'number' || arm.traffic <= 0) errors.push(`${prefix}.traffic must be a positive number`);
+
+  if (raw.ranking_mode !== undefined) {
+    if (!RANKING_MODES.includes(raw.ranking_mode)) {
+      errors.push(`${prefix}.ranking_mode must be one of: ${RANKING_MODES.join(', ')}`);
+    }
+    arm.ranking_mode = raw.ranking_mode;
+  }
+
+  if (raw.weights !== undefined) {
+    const known = Object.keys(config.ranking.weights);
+    const entries = raw.weights && typeof raw.weights === 'object' ? Object.entries(raw.weights) : null;
+    if (!entries || entries.some(([key, value]) => !known.includes(key) || typeof value !== 'number' || value < 0)) {
+      errors.push(`${prefix}.weights must map ${known.join(', ')} to non-negative numbers`);
+    }
+    arm.weights = raw.weights as Partial<RankingWeights>;
+  }
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== 'string' || !raw.model.trim()) errors.push(`${prefix}.model must be a model name`);
+    arm.model = raw.model;
+  }
+
+  if (raw.candidate_pool_size !== undefined) {
+    if (!Number.isInteger(raw.candidate_pool_size) || raw.candidate_pool_size < 1 || raw.candidate_pool_size > 500) {
+      errors.push(`${prefix}.candidate_pool_size must be an integer between 1 and 500`);
+    }
+    arm.candidate_pool_size = raw.candidate_pool_size;
+  }
+
+  return arm;
+}
+
+// Validate an experiment body (create, or an update merged onto the stored experiment)
+async function validateExperiment(
+  shopId: string,
+  body: any,
+  experimentId: number | null
+): Promise<{ name: string; status: ExperimentStatus; arms: ExperimentArm[] }> {
+  const errors: string[] = [];
+
+  if (typeof body.name !== 'string' || !body.name.trim()) errors.push('name is required');
+
+  const status = body.status ?? 'running';
+  if (!EXPERIMENT_STATUSES.includes(status)) {
+    errors.push(`status must be one of: ${EXPERIMENT_STATUSES.join(', ')}`);
+  }
+
+  const arms: ExperimentArm[] = [];
+  if (!Array.isArray(body.arms) || body.arms.length < 2) {
+    errors.push('arms must be an array of at least 2 arms');
+  } else {
+    body.arms.forEach((raw: any, i: number) => {
+      const arm = validateArm(raw, i, errors);
+      if (arm) arms.push(arm);
+    });
+    const names = arms.map(arm => arm.name);
+    if (new Set(names).size !== names.length) errors.push('arm names must be unique');
+  }
+
+  // Each request can only be assigned by one experiment
+  if (status === 'running') {
+    const running = await pool.query(
+      `SELECT id, name FROM experiments WHERE shop_id = $1 AND status = 'running' AND id <> $2`,
+      [shopId, experimentId ?? 0]
+    );
+    if (running.rows.length > 0) {
+      errors.push(`experiment ${running.rows[0].id} (${running.rows[0].name}) is already running`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ExperimentValidationError(errors);
+  }
+  return { name: body.name.trim(), status, arms };
+}
+
+export async function listExperiments(shopId: string): Promise<Experiment[]> {
+  const result = await pool.query('SELECT * FROM experiments WHERE shop_id = $1 ORDER BY id DESC', [shopId]);
+  return result.rows;
+}
+
+export async function getExperiment(shopId: string, experimentId: number): Promise<Experiment | null> {
+  const result = await pool.query('SELECT * FROM experiments WHERE shop_id = $1 AND id = $2', [shopId, experimentId]);
+  return result.rows[0] || null;
+}
+
+export async function createExperiment(shopId: string, body: any): Promise<Experiment> {
+  const { name, status, arms } = await validateExperiment(shopId, body || {}, null);
+  const result = await pool.query(
+    `INSERT INTO experiments (shop_id, name, status, arms) VALUES ($1, $2, $3, $4) RETURNING *`,
+    [shopId, name, status, JSON.stringify(arms)]
+  );
+
+  // Cached responses were served without an arm
+  await invalidateShopCache(shopId);
+  return result.rows[0];
+}
+
+/**
+ * Update an experiment - fields missing from the body keep their stored value
+ * Subjects keep their recorded arm; subjects of a removed arm are re-assigned.
+ * @returns The updated experiment, or null when it doesn't exist
+ */
+export async function updateExperiment(shopId: string, experimentId: number, body: any): Promise<Experiment | null> {
+  const existing = await getExperiment(shopId, experimentId);
+  if (!existing) return null;
+
+  const { name, status, arms } = await validateExperiment(shopId, { ...existing, ...(body || {}) }, experimentId);
+  const result = await pool.query(
+    `UPDATE experiments SET name = $3, status = $4, arms = $5, updated_at = CURRENT_TIMESTAMP
+     WHERE shop_id = $1 AND id = $2
+     RETURNING *`,
+    [shopId, experimentId, name, status, JSON.stringify(arms)]
+  );
+
+  await invalidateShopCache(shopId);
+  return result.rows[0];
+}
+
+export async function deleteExperiment(shopId: string, experimentId: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM experiments WHERE shop_id = $1 AND id = $2', [shopId, experimentId]);
+  if (!result.rowCount) return false;
+
+  await pool.query('DELETE FROM experiment_assignments WHERE experiment_id = $1', [experimentId]);
+  await pool.query('DELETE FROM experiment_exposures WHERE experiment_id = $1', [experimentId]);
+  await invalidateShopCache(shopId);
+  return true;
+}
+
+// Stable arm for a subject: sha256(experiment id + subject) mapped onto the arms' traffic shares
+export function pickArm(experimentId: number, subjectId: string, arms: ExperimentArm[]): ExperimentArm {
+  const hash = createHash('sha256').update(`${experimentId}:${subjectId}`).digest();
+  const point = (hash.readUInt32BE(0) / 0x100000000) * arms.reduce((sum, arm) => sum + arm.traffic, 0);
+
+  let cumulative = 0;
+  for (const arm of arms) {
+    cumulative += arm.traffic;
+    if (point < cumulative) return arm;
+  }
+  return arms[arms.length - 1]!;
+}
+
+/**
+ * Assign a subject (user_id or session_id) to an arm of the shop's running experiment and record it
+ * A recorded assignment is kept for the rest of the experiment, even if traffic shares change.
+ * @returns The assignment, or null when the shop runs no experiment
+ */
+export async function assignExperimentArm(shopId: string, subjectId: string): Promise<ExperimentAssignment | null> {
+  const running = await pool.query(
+    `SELECT * FROM experiments WHERE shop_id = $1 AND status = 'running' ORDER BY id DESC LIMIT 1`,
+    [shopId]
+  );
+  const experiment: Experiment | undefined = running.rows[0];
+  if (!experiment) return null;
+
+  const recorded = await pool.query(
+    'SELECT arm FROM experiment_assignments WHERE experiment_id = $1 AND subject_id = $2',
+    [experiment.id, subjectId]
+  );
+  let arm = experiment.arms.find(a => a.name === recorded.rows[0]?.arm);
+
+  if (!arm) {
+    arm = pickArm(experiment.id, subjectId, experiment.arms);
+    await pool.query(
+      `INSERT INTO experiment_assignments (experiment_id, subject_id, arm) VALUES ($1, $2, $3)
+       ON CONFLICT (experiment_id, subject_id) DO UPDATE SET arm = $3, assigned_at = CURRENT_TIMESTAMP`,
+      [experiment.id, subjectId, arm.name]
+    );
+  }
+
+  return { experiment_id: experiment.id, experiment_name: experiment.name, arm, subject_id: subjectId };
+}
+
+// getRecommendations options for an arm; true when the arm changes ranking (stored lists don't apply)
+export function getArmOverrides(arm: ExperimentArm): { options: RecommendationOptions; changesRanking: boolean } {
+  const options: RecommendationOptions = {
+    weights: arm.weights,
+    model: arm.model,
+    candidate_pool_size: arm.candidate_pool_size,
+  };
+  const changesRanking = arm.ranking_mode !== undefined
+    || arm.weights !== undefined
+    || arm.model !== undefined
+    || arm.candidate_pool_size !== undefined;
+  return { options, changesRanking };
+}
+
+// Record the products an arm served - the report's impressions and items shown
+export async function recordExposure(
+  assignment: ExperimentAssignment,
+  sessionId: string | null,
+  productIds: number[]
+): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO experiment_exposures (experiment_id, arm, subject_id, session_id, product_ids)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [assignment.experiment_id, assignment.arm.name, assignment.subject_id, sessionId, productIds]
+    );
+  } catch (error: any) {
+    console.error(`⚠️  Recording exposure for experiment ${assignment.experiment_id} failed:`, error.message);
+  }
+}
+
+/**
+ * Per-arm impressions, clicks and conversions
+ * Clicks and conversions are the storefront's click / conversion events on the arm's recommendation
+ * responses (POST /api/recommendations/:recommendationId/:eventType); each (response, product) counts once.
+ */
+export async function getExperimentReport(experiment: Experiment): Promise<ExperimentArmReport[]> {
+  const result = await pool.query(
+    `WITH served AS (
+       SELECT arm, COUNT(*)::int AS impressions, COALESCE(SUM(cardinality(product_ids)), 0)::int AS items_shown
+       FROM experiment_exposures
+       WHERE experiment_id = $1
+       GROUP BY arm
+     ),
+     assigned AS (
+       SELECT arm, COUNT(*)::int AS subjects
+       FROM experiment_assignments
+       WHERE experiment_id = $1
+       GROUP BY arm
+     ),
+     outcomes AS (
+       SELECT r.experiment_arm AS arm,
+              COUNT(DISTINCT r.recommendation_id::text || ':' || ev.product_id) FILTER (WHERE ev.event_type = 'click')::int AS clicks,
+              COUNT(DISTINCT r.recommendation_id::text || ':' || ev.product_id) FILTER (WHERE ev.event_type = 'conversion')::int AS conversions
+       FROM recommendation_responses r
+       JOIN recommendation_events ev ON ev.recommendation_id = r.recommendation_id
+       WHERE r.shop_id = $2 AND r.experiment_id = $1
+       GROUP BY r.experiment_arm
+     )
+     SELECT a.arm,
+            COALESCE(assigned.subjects, 0) AS subjects,
+            COALESCE(served.impressions, 0) AS impressions,
+            COALESCE(served.items_shown, 0) AS items_shown,
+            COALESCE(outcomes.clicks, 0) AS clicks,
+            COALESCE(outcomes.conversions, 0) AS conversions
+     FROM UNNEST($3::text[]) AS a(arm)
+     LEFT JOIN served ON served.arm = a.arm
+     LEFT JOIN assigned ON assigned.arm = a.arm
+     LEFT JOIN outcomes ON outcomes.arm = a.arm`,
+    [experiment.id, experiment.shop_id, experiment.arms.map(arm => arm.name)]
+  );
+
+  return result.rows.map((row: any): ExperimentArmReport => ({
+    ...row,
+    ctr: row.items_shown > 0 ? Number((row.clicks / row.items_shown).toFixed(4)) : 0,
+    conversion_rate: row.items_shown > 0 ? Number((row.conversions / row.items_shown).toFixed(4)) : 0,
+  }));
+}
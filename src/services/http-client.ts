@@ -0,0 +1,85 @@
+import { config } from '../config.js';
+
+// Non-2xx response from an LLM / embedding API, after retries
+export class HttpError extends Error {
+  status: number;
+
+  constructor(label: string, status: number, body: string) {
+    super(`${label} error: ${status} - ${body}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Rate limiting and server errors are worth another attempt; other 4xx are not
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Delay before retry `attempt` (1-based): Retry-After when the server sent one, else exponential with full jitter
+function getBackoffDelay(attempt: number, retryAfter: string | null): number {
+  const { base_delay_ms, max_delay_ms } = config.http;
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(max_delay_ms, retryAfterSeconds * 1000);
+  }
+  return Math.round(Math.random() * Math.min(max_delay_ms, base_delay_ms * 2 ** (attempt - 1)));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * fetch with a per-attempt timeout and exponential backoff retries
+ * Each attempt - response headers and body - is aborted after config.http.timeout_ms; the returned
+ * Response is already read into memory. Timeouts, network errors, 429 and 5xx are retried
+ * up to config.http.max_retries times; other responses are returned or thrown at once.
+ * @param label - Names the API in logs and errors, e.g. "Gemini", "Embedding API"
+ * @throws HttpError for a non-2xx response, or the last network / timeout error
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, label: string): Promise<Response> {
+  const { timeout_ms, max_retries } = config.http;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout_ms);
+    let retryAfter: string | null = null;
+    let failure: Error;
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      // The body is read while the timer runs, so a server stalling mid-body times out too
+      const body = await response.text();
+      if (response.ok) {
+        return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+      }
+
+      failure = new HttpError(label, response.status, body);
+      if (!isRetryableStatus(response.status)) throw failure;
+      retryAfter = response.headers.get('retry-after');
+    } catch (error: any) {
+      if (error instanceof HttpError && !isRetryableStatus(error.status)) throw error;
+      failure = error.name === 'AbortError' ? new Error(`${label} request timed out after ${timeout_ms}ms`) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt >= max_retries) throw failure;
+    const delay = getBackoffDelay(attempt + 1, retryAfter);
+    console.warn(`⚠️  ${failure.message} - retry ${attempt + 1}/${max_retries} in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+// Reject when a promise outlives config.http.timeout_ms - for SDK calls that take no AbortSignal
+export async function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  const { timeout_ms } = config.http;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} request timed out after ${timeout_ms}ms`)), timeout_ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,190 @@
+import { pool } from '../database/db.js';
+import type { LLMBatchOutcome, PrecomputeStep, PrecomputeStepProgress, ProcessTracker } from '../types/index.js';
+
+// Thrown between batches/steps once a cancellation has been requested for the job
+export class PrecomputeCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Precompute job ${jobId} was cancelled`);
+    this.name = 'PrecomputeCancelledError';
+  }
+}
+
+const TRACKER_COLUMNS = `id, shop_id, status, product_count, force_rebuild, steps, error_message,
+  cancel_requested, tag_set_hash, started_at, completed_at, last_run`;
+
+// Shape a process_tracker row for API responses
+function toJob(row: any): ProcessTracker {
+  const completedAt = row.completed_at ? new Date(row.completed_at) : undefined;
+  return {
+    ...row,
+    steps: row.steps || {},
+    duration_ms: (completedAt ? completedAt.getTime() : Date.now()) - new Date(row.started_at).getTime(),
+  };
+}
+
+// Create a process tracker entry - its id is the job id returned to clients
+export async function createPrecomputeJob(shopId: string, forceRebuild: boolean = false): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO process_tracker (shop_id, status, product_count, force_rebuild, started_at, last_run)
+     VALUES ($1, 'running', 0, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+     RETURNING id`,
+    [shopId, forceRebuild]
+  );
+  return result.rows[0].id;
+}
+
+// Merge a progress patch into one step of the job
+async function patchJobStep(jobId: number, step: PrecomputeStep, patch: Partial<PrecomputeStepProgress>): Promise<void> {
+  await pool.query(
+    `UPDATE process_tracker
+     SET steps = jsonb_set(
+           COALESCE(steps, '{}'::jsonb),
+           ARRAY[$2::text],
+           COALESCE(steps -> $2::text, '{}'::jsonb) || $3::jsonb
+         ),
+         last_run = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [jobId, step, JSON.stringify(patch)]
+  );
+}
+
+export async function startJobStep(jobId: number, step: PrecomputeStep, total?: number): Promise<void> {
+  await patchJobStep(jobId, step, {
+    status: 'running',
+    started_at: new Date().toISOString(),
+    ...(total !== undefined ? { done: 0, total } : {}),
+  });
+}
+
+// Append a batch outcome to a step's batches - batches run concurrently, so this is one atomic update
+export async function appendJobStepBatch(jobId: number, step: PrecomputeStep, outcome: LLMBatchOutcome): Promise<void> {
+  await pool.query(
+    `UPDATE process_tracker
+     SET steps = jsonb_set(
+           steps,
+           ARRAY[$2::text, 'batches'],
+           COALESCE(steps #> ARRAY[$2::text, 'batches'], '[]'::jsonb) || jsonb_build_array($3::jsonb)
+         ),
+         last_run = CURRENT_TIMESTAMP
+     WHERE id = $1 AND steps ? $2::text`,
+    [jobId, step, JSON.stringify(outcome)]
+  );
+}
+
+export async function updateJobStepProgress(jobId: number, step: PrecomputeStep, done: number, total: number): Promise<void> {
+  await patchJobStep(jobId, step, { done, total });
+}
+
+export async function completeJobStep(
+  jobId: number,
+  step: PrecomputeStep,
+  durationMs: number,
+  extra: Partial<PrecomputeStepProgress> = {}
+): Promise<void> {
+  await patchJobStep(jobId, step, {
+    status: 'completed',
+    completed_at: new Date().toISOString(),
+    duration_ms: durationMs,
+    ...extra,
+  });
+}
+
+export async function skipJobStep(
+  jobId: number,
+  step: PrecomputeStep,
+  extra: Partial<PrecomputeStepProgress> = {}
+): Promise<void> {
+  await patchJobStep(jobId, step, { status: 'skipped', completed_at: new Date().toISOString(), ...extra });
+}
+
+export async function failJobStep(
+  jobId: number,
+  step: PrecomputeStep,
+  error: string,
+  extra: Partial<PrecomputeStepProgress> = {}
+): Promise<void> {
+  await patchJobStep(jobId, step, { status: 'failed', completed_at: new Date().toISOString(), error, ...extra });
+}
+
+export async function setJobProductCount(jobId: number, productCount: number): Promise<void> {
+  await pool.query('UPDATE process_tracker SET product_count = $1 WHERE id = $2', [productCount, jobId]);
+}
+
+// Mark the job finished; any step still running is closed with the same status
+export async function finishJob(
+  jobId: number,
+  status: 'completed' | 'failed' | 'cancelled',
+  errorMessage: string | null = null
+): Promise<void> {
+  const job = await getPrecomputeJob(jobId);
+  if (job) {
+    for (const [step, progress] of Object.entries(job.steps)) {
+      if (progress.status === 'running') {
+        await patchJobStep(jobId, step as PrecomputeStep, {
+          status: status === 'completed' ? 'completed' : status,
+          completed_at: new Date().toISOString(),
+          ...(errorMessage ? { error: errorMessage } : {}),
+        });
+      }
+    }
+  }
+
+  await pool.query(
+    `UPDATE process_tracker
+     SET status = $1, error_message = $2, completed_at = CURRENT_TIMESTAMP
+     WHERE id = $3`,
+    [status, errorMessage, jobId]
+  );
+}
+
+export async function getPrecomputeJob(jobId: number): Promise<ProcessTracker | null> {
+  const result = await pool.query(`SELECT ${TRACKER_COLUMNS} FROM process_tracker WHERE id = $1`, [jobId]);
+  return result.rows.length > 0 ? toJob(result.rows[0]) : null;
+}
+
+// Record the tag set the shop's tag graph was built from
+export async function setJobTagSetHash(jobId: number, tagSetHash: string): Promise<void> {
+  await pool.query('UPDATE process_tracker SET tag_set_hash = $1 WHERE id = $2', [tagSetHash, jobId]);
+}
+
+// Tag set hash of the most recent completed job that built a tag graph for the shop
+export async function getLastTagSetHash(shopId: string): Promise<string | null> {
+  const result = await pool.query(
+    `SELECT tag_set_hash FROM process_tracker
+     WHERE shop_id = $1 AND status = 'completed' AND tag_set_hash IS NOT NULL
+     ORDER BY completed_at DESC
+     LIMIT 1`,
+    [shopId]
+  );
+  return result.rows[0]?.tag_set_hash ?? null;
+}
+
+// Most recent jobs first
+export async function listPrecomputeJobs(shopId: string, limit: number = 20): Promise<ProcessTracker[]> {
+  const result = await pool.query(
+    `SELECT ${TRACKER_COLUMNS}
+     FROM process_tracker
+     WHERE shop_id = $1
+     ORDER BY started_at DESC, id DESC
+     LIMIT $2`,
+    [shopId, limit]
+  );
+  return result.rows.map(toJob);
+}
+
+// Flag a running job for cancellation - the pipeline stops at its next batch/step boundary
+export async function requestJobCancellation(jobId: number): Promise<ProcessTracker | null> {
+  await pool.query(
+    `UPDATE process_tracker SET cancel_requested = TRUE WHERE id = $1 AND status = 'running'`,
+    [jobId]
+  );
+  return getPrecomputeJob(jobId);
+}
+
+// Cancellation checkpoint, called between batches and steps
+export async function throwIfCancelled(jobId: number): Promise<void> {
+  const result = await pool.query('SELECT cancel_requested FROM process_tracker WHERE id = $1', [jobId]);
+  if (result.rows[0]?.cancel_requested) {
+    throw new PrecomputeCancelledError(jobId);
+  }
+}
@@ -0,0 +1,353 @@
+import type { LLMOutputStats, LLMProvider, LLMProviderName, LLMRequest, LLMSchema, LLMStage } from '../types/index.js';
+import { config } from '../config.js';
+import { fetchWithRetry, withTimeout } from './http-client.js';
+
+// API endpoints
+const GRID_AI_URL = 'https://grid.ai.juspay.net/v1/chat/completions';
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/chat/completions';
+
+// Get API key lazily (after dotenv loads)
+function getEnvKey(name: string): string {
+  const key = process.env[name] || '';
+  if (!key.trim()) {
+    throw new Error(`${name} not found in environment variables`);
+  }
+  return key;
+}
+
+// OpenAI-compatible chat completions endpoint (Grid AI and Gemini both speak this)
+function createChatCompletionsProvider(
+  name: 'grid' | 'gemini',
+  url: string,
+  keyName: string
+): LLMProvider {
+  return {
+    name,
+    async complete(request: LLMRequest): Promise<string> {
+      const messages = [];
+      if (request.system) {
+        messages.push({ role: 'system', content: request.system });
+      }
+      messages.push({ role: 'user', content: request.prompt });
+
+      // Timeout per attempt, 429 / 5xx retried with backoff (config.http)
+      const response = await fetchWithRetry(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${getEnvKey(keyName)}`,
+        },
+        body: JSON.stringify({
+          model: request.model || config.llm.models[request.stage],
+          messages,
+          temperature: request.temperature ?? 0.3,
+          max_tokens: request.maxTokens ?? 1000,
+        }),
+      }, `${name} API`);
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+  };
+}
+
+// Neurolink SDK (Google Vertex AI) - imported lazily so offline runs don't need it
+function createNeurolinkProvider(): LLMProvider {
+  return {
+    name: 'neurolink',
+    async complete(request: LLMRequest): Promise<string> {
+      const { NeuroLink } = await import('@juspay/neurolink');
+      const neurolink = new NeuroLink();
+      const text = request.system ? `${request.system}\n\n${request.prompt}` : request.prompt;
+      const result = await withTimeout<{ content: string }>(neurolink.generate({
+        input: { text },
+        disableTools: true,
+        maxTokens: request.maxTokens ?? 1200,
+      }), 'neurolink');
+      return result.content;
+    },
+  };
+}
+
+// Deterministic offline provider - answers from request.data without any network call
+function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    async complete(request: LLMRequest): Promise<string> {
+      const data: any = request.data || {};
+
+      switch (request.stage) {
+        case 'product_tagging':
+          return JSON.stringify(mockProductTags(data.products || []));
+        case 'tag_graph':
+          return JSON.stringify(mockTagGraph(data.tags || [], data.vocabulary || data.tags || []));
+        case 'ranking':
+          return JSON.stringify(mockRanking(data.sourceProducts || [], data.candidates || []));
+        default:
+          return '[]';
+      }
+    },
+  };
+}
+
+function mockProductTags(products: any[]): Array<{ id: number; tags: string[]; description: string }> {
+  return products.map(p => ({
+    id: p.id,
+    tags: [(p.category || 'product').toLowerCase().trim()],
+    description: `${p.title} by ${p.vendor}, a ${p.category || 'general'} item priced at $${p.price}`,
+  }));
+}
+
+// Four complements then two upgrades/substitutes per tag (picked from the whole vocabulary), with decreasing weights
+function mockTagGraph(
+  tags: string[],
+  vocabulary: string[]
+): Array<{ tag: string; related: Array<{ tag: string; relation: string; weight: number }> }> {
+  return tags.map(tag => ({
+    tag,
+    related: vocabulary
+      .filter(other => other !== tag)
+      .sort((a, b) => stableHash(tag + a) - stableHash(tag + b))
+      .slice(0, 6)
+      .map((other, i) => ({
+        tag: other,
+        relation: i < 4 ? 'complement' : i === 4 ? 'upgrade' : 'substitute',
+        weight: Number((1 - (i % 4) * 0.2).toFixed(1)),
+      })),
+  }));
+}
+
+// Picks within config.pricing like a well-behaved LLM: upsells of the source type priced min_ratio-max_ratio x
+// the source (closest to target_ratio first), crosssells of other types up to the crosssell ceiling
+function mockRanking(sourceProducts: any[], candidates: any[]): { upsell: number[]; crosssell: number[] } {
+  const { upsell: upsellBand, crosssell: crosssellBand } = config.pricing;
+  const sourceCategories = new Set(sourceProducts.map(p => p.category));
+  const averagePrice = (products: any[]) => products.length > 0
+    ? products.reduce((sum, p) => sum + Number(p.price || 0), 0) / products.length
+    : 0;
+  const cartValue = sourceProducts.reduce((sum, p) => sum + Number(p.price || 0), 0);
+  const upsellRatio = (c: any) => Number(c.price) / averagePrice(sourceProducts.filter(p => p.category === c.category));
+
+  const upsell = candidates
+    .filter(c => sourceCategories.has(c.category))
+    .filter(c => upsellRatio(c) >= upsellBand.min_ratio && upsellRatio(c) <= upsellBand.max_ratio)
+    .sort((a, b) => Math.abs(upsellRatio(a) - upsellBand.target_ratio) - Math.abs(upsellRatio(b) - upsellBand.target_ratio))
+    .slice(0, 10)
+    .map(c => Number(c.id));
+  const crosssell = candidates
+    .filter(c => !sourceCategories.has(c.category))
+    .filter(c => cartValue <= 0 || Number(c.price) <= cartValue * crosssellBand.max_cart_ratio)
+    .slice(0, 10)
+    .map(c => Number(c.id));
+
+  return { upsell, crosssell };
+}
+
+// FNV-1a hash - stable across runs, used for deterministic ordering
+function stableHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Resolve 'auto' with the original priority: Neurolink, then Gemini, then Grid AI
+function resolveAutoProvider(): Exclude<LLMProviderName, 'auto'> {
+  if (process.env.USE_NEUROLINK?.toLowerCase() === 'true') return 'neurolink';
+  if (process.env.RECOMMENDATIONS_API_KEY?.trim()) return 'gemini';
+  if (process.env.GRID_AI_API_KEY?.trim()) return 'grid';
+  throw new Error('No API key found: set USE_NEUROLINK=true, RECOMMENDATIONS_API_KEY, or GRID_AI_API_KEY');
+}
+
+// Provider name for a stage: LLM_PROVIDER_<STAGE> > LLM_PROVIDER > config.llm.providers
+export function getLLMProviderName(stage: LLMStage): Exclude<LLMProviderName, 'auto'> {
+  const configured = (
+    process.env[`LLM_PROVIDER_${stage.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    config.llm.providers[stage]
+  ).toLowerCase() as LLMProviderName;
+
+  return configured === 'auto' ? resolveAutoProvider() : configured;
+}
+
+/**
+ * Get the LLM provider configured for a pipeline stage
+ * @param stage - product_tagging, tag_graph or ranking
+ */
+export function getLLMProvider(stage: LLMStage): LLMProvider {
+  const name = getLLMProviderName(stage);
+
+  switch (name) {
+    case 'grid':
+      return createChatCompletionsProvider('grid', GRID_AI_URL, 'GRID_AI_API_KEY');
+    case 'gemini':
+      return createChatCompletionsProvider('gemini', GEMINI_URL, 'RECOMMENDATIONS_API_KEY');
+    case 'neurolink':
+      return createNeurolinkProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}" for stage ${stage}`);
+  }
+}
+
+// Send a request to the provider configured for its stage
+export async function completeWithLLM(request: LLMRequest): Promise<string> {
+  return getLLMProvider(request.stage).complete(request);
+}
+
+/**
+ * Extract JSON from an LLM reply - strips ``` fences, then takes the outermost array/object
+ * @throws if no JSON of the requested shape is found or it does not parse
+ */
+export function parseLLMJson<T>(llmResponse: string, shape: 'array' | 'object'): T {
+  let jsonText = (typeof llmResponse === 'string' ? llmResponse : JSON.stringify(llmResponse)).trim();
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '').trim();
+  }
+
+  const jsonMatch = shape === 'array' ? jsonText.match(/\[[\s\S]*\]/) : jsonText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`No JSON ${shape} found in LLM response`);
+  }
+
+  return JSON.parse(jsonMatch[0]) as T;
+}
+
+// Complete elements of a JSON array whose reply was cut off or is otherwise broken - only object and array
+// elements are recovered; the element that was being written when the reply ended is dropped
+export function salvageJsonArrayItems(text: string): unknown[] {
+  const items: unknown[] = [];
+  const start = text.indexOf('[');
+  if (start < 0) return items;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+      if (depth === 2) itemStart = i;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 1 && itemStart >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // Malformed element - the schema reports it as missing
+        }
+        itemStart = -1;
+      } else if (depth === 0) {
+        break;
+      }
+    }
+  }
+  return items;
+}
+
+export function emptyLLMOutputStats(): LLMOutputStats {
+  return { replies: 0, parse_failures: 0, invalid_items: 0, repair_requests: 0, repaired_items: 0, unresolved_items: 0 };
+}
+
+// Add b's counts to a
+export function addLLMOutputStats(a: LLMOutputStats, b: LLMOutputStats): LLMOutputStats {
+  for (const key of Object.keys(a) as Array<keyof LLMOutputStats>) {
+    a[key] += b[key];
+  }
+  return a;
+}
+
+// Validation counts per stage since the process started
+const outputStatsByStage: Record<LLMStage, LLMOutputStats> = {
+  product_tagging: emptyLLMOutputStats(),
+  tag_graph: emptyLLMOutputStats(),
+  ranking: emptyLLMOutputStats(),
+};
+const outputStatsSince = new Date();
+
+export function getLLMOutputStats(): { since: string; stages: Record<LLMStage, LLMOutputStats> } {
+  return { since: outputStatsSince.toISOString(), stages: structuredClone(outputStatsByStage) };
+}
+
+/**
+ * Send a request and validate the reply against a schema, item by item
+ * Valid items are kept even when others fail; a broken array reply keeps its complete elements.
+ * Items still missing are requested again with schema.repair, up to config.llm.repair_attempts times.
+ * Counts are added to the stage's totals and to `stats` when given.
+ * @throws if the first request fails - a failed repair request only ends the repairs
+ * @returns Valid items by key, the keys left missing and every schema error
+ */
+export async function completeWithSchema<T>(
+  request: LLMRequest,
+  schema: LLMSchema<T>,
+  stats?: LLMOutputStats
+): Promise<{ items: Map<string, T>; missing: string[]; errors: string[]; replies: string[] }> {
+  const callStats = emptyLLMOutputStats();
+  const items = new Map<string, T>();
+  const errors: string[] = [];
+  const replies: string[] = [];
+  let missing = [...schema.keys];
+  let lastErrors: string[] = [];
+
+  try {
+    for (let attempt = 0; attempt <= config.llm.repair_attempts && missing.length > 0; attempt++) {
+      let reply: string;
+      if (attempt === 0) {
+        reply = await completeWithLLM(request);
+      } else {
+        callStats.repair_requests++;
+        console.log(`🔧 Repair request ${attempt}/${config.llm.repair_attempts} (${request.stage}) for ${missing.length} items`);
+        try {
+          reply = await completeWithLLM(schema.repair(missing, lastErrors));
+        } catch (error: any) {
+          console.warn(`⚠️  Repair request failed (${request.stage}):`, error.message);
+          break;
+        }
+      }
+      replies.push(reply);
+      callStats.replies++;
+
+      let parsed: any;
+      try {
+        parsed = parseLLMJson(reply, schema.shape);
+      } catch (error: any) {
+        callStats.parse_failures++;
+        parsed = schema.shape === 'array' ? salvageJsonArrayItems(reply) : null;
+        console.warn(`⚠️  Unparseable ${request.stage} reply (${error.message})` +
+          (parsed?.length ? ` - salvaged ${parsed.length} complete items` : ''));
+      }
+
+      lastErrors = parsed ? [] : [`reply was not a valid JSON ${schema.shape}`];
+      if (parsed) {
+        const result = schema.validate(parsed);
+        lastErrors = result.errors;
+        callStats.invalid_items += result.errors.length;
+        for (const [key, item] of result.items) {
+          if (!missing.includes(key)) continue;
+          items.set(key, item);
+          if (attempt > 0) callStats.repaired_items++;
+        }
+      }
+      errors.push(...lastErrors);
+      missing = schema.keys.filter(key => !items.has(key));
+    }
+    callStats.unresolved_items = missing.length;
+  } finally {
+    addLLMOutputStats(outputStatsByStage[request.stage], callStats);
+    if (stats) addLLMOutputStats(stats, callStats);
+  }
+
+  return { items, missing, errors, replies };
+}
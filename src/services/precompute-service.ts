@@ -1,96 +1,239 @@
 import { pool } from '../database/db.js';
-import type { CatalogProduct, ProcessTracker, TagGraphNode } from '../types/index.js';
+import type { CatalogProduct, TagEdge } from '../types/index.js';
 import { buildTagGraphWithLLM } from './tag-service.js';
 import { batchGenerateEmbeddings } from './embedding-service.js';
+import type { ProductEmbeddingData } from './embedding-service.js';
+import { getEmbeddingProvider } from './embedding-provider.js';
+import { startBackgroundReembedding } from './reembedding-service.js';
+import { emptyLLMOutputStats, getLLMProviderName } from './llm-service.js';
+import { loadShopCatalog } from './catalog-service.js';
+import { computePurchaseScores } from './event-service.js';
+import { buildCoPurchaseGraph, getTagCoPurchaseAffinity } from './copurchase-service.js';
+import { buildRecommendationLists } from './recommendation-list-service.js';
+import { invalidateShopCache } from './cache-service.js';
+import {
+  PrecomputeCancelledError,
+  appendJobStepBatch,
+  completeJobStep,
+  createPrecomputeJob,
+  failJobStep,
+  finishJob,
+  getLastTagSetHash,
+  setJobProductCount,
+  setJobTagSetHash,
+  skipJobStep,
+  startJobStep,
+  throwIfCancelled,
+  updateJobStepProgress,
+} from './job-service.js';
 import { config } from '../config.js';
+import { createHash } from 'crypto';
 
-export async function runPrecomputation(shopId: string, forceRebuild: boolean = false): Promise<void> {
+/**
+ * Run the precompute pipeline for a shop
+ * @param shopId - Shop identifier
+ * @param forceRebuild - Rebuild everything regardless of previous runs
+ * @param jobId - Existing job (process_tracker id); a new one is created if omitted
+ */
+export async function runPrecomputation(
+  shopId: string,
+  forceRebuild: boolean = false,
+  jobId?: number
+): Promise<void> {
   const client = await pool.connect();
-  let trackerId: number | null = null;
+  let trackerId: number | null = jobId ?? null;
   const overallStartTime = Date.now();
   
   try {
     // Create process tracker entry
-    const trackerResult = await client.query(
-      `INSERT INTO process_tracker (shop_id, status, product_count, started_at, last_run)
-       VALUES ($1, 'running', 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-       RETURNING id`,
-      [shopId]
-    );
-    trackerId = trackerResult.rows[0].id;
+    if (trackerId === null) {
+      trackerId = await createPrecomputeJob(shopId, forceRebuild);
+    }
+    const currentJobId: number = trackerId;
     
     console.log('\n' + '='.repeat(60));
     console.log('🚀 STARTING PRECOMPUTATION');
     console.log('='.repeat(60));
     console.log(`Shop ID: ${shopId}`);
-    console.log(`Using: Juspay Grid AI (https://grid.ai.juspay.net)`);
+    console.log(`Job ID: ${currentJobId}`);
+    console.log(`LLM providers: tagging=${getLLMProviderName('product_tagging')}, tag graph=${getLLMProviderName('tag_graph')}`);
     console.log('='.repeat(60) + '\n');
     
     // Step 1: Load products from catalog
     console.log('📦 STEP 1: Loading product catalog...');
     const step1Start = Date.now();
-    const products = await loadProductCatalog(shopId);
+    await startJobStep(currentJobId, 'catalog_load');
+    const products = await loadShopCatalog(shopId);
+    await setJobProductCount(currentJobId, products.length);
     console.log(`⏱️  STEP 1 completed in ${Date.now() - step1Start}ms`);
     console.log(`✅ Loaded ${products.length} products\n`);
     
-    await client.query(
-      'UPDATE process_tracker SET product_count = $1 WHERE id = $2',
-      [products.length, trackerId]
-    );
+    // Only new or changed products go through the LLM unless a full rebuild was requested
+    const existingHashes = forceRebuild ? new Map<number, string>() : await loadContentHashes(client, shopId);
+    const changedProducts = products.filter(p => forceRebuild || existingHashes.get(p.id) !== computeContentHash(p));
+    const unchangedCount = products.length - changedProducts.length;
+    await completeJobStep(currentJobId, 'catalog_load', Date.now() - step1Start, {
+      total: products.length,
+      changed: changedProducts.length,
+      skipped: unchangedCount,
+    });
+    console.log(forceRebuild
+      ? '🔁 force_rebuild: reprocessing every product\n'
+      : `🔍 ${changedProducts.length} new/changed products, ${unchangedCount} unchanged (skipped)\n`);
     
-    // Step 2: Process products with LLM (embeddings + tags in batches of 50)
-    console.log('🤖 STEP 2: Processing products with LLM (batches of 50)...');
-    console.log('   - Generating embeddings');
-    console.log('   - Extracting enhanced tags');
+    // Step 2: Process products with LLM (embeddings + tags in concurrent batches)
+    await throwIfCancelled(currentJobId);
     const step2Start = Date.now();
-    const productData = await batchGenerateEmbeddings(products);
-    console.log(`⏱️  STEP 2 completed in ${Date.now() - step2Start}ms`);
+    let productData = new Map<number, ProductEmbeddingData>();
+    let needsReembedding = false; // a batch was embedded by the fallback provider or not at all
+    if (changedProducts.length > 0) {
+      console.log(`🤖 STEP 2: Processing products with LLM (batches of ${config.llm_batches.batch_size}, ${config.llm_batches.concurrency} at a time)...`);
+      console.log('   - Generating embeddings');
+      console.log('   - Extracting enhanced tags');
+      await startJobStep(currentJobId, 'llm_batches', Math.ceil(changedProducts.length / config.llm_batches.batch_size));
+      const llmOutput = emptyLLMOutputStats();
+      productData = await batchGenerateEmbeddings(changedProducts, {
+        checkCancelled: () => throwIfCancelled(currentJobId),
+        onBatchComplete: (done, total) => updateJobStepProgress(currentJobId, 'llm_batches', done, total),
+        onBatchOutcome: outcome => {
+          needsReembedding ||= outcome.embedder !== getEmbeddingProvider().name;
+          return appendJobStepBatch(currentJobId, 'llm_batches', outcome);
+        },
+        llmOutput,
+      });
+      await completeJobStep(currentJobId, 'llm_batches', Date.now() - step2Start, {
+        skipped: unchangedCount,
+        llm_output: llmOutput,
+      });
+      console.log(`⏱️  STEP 2 completed in ${Date.now() - step2Start}ms`);
+    } else {
+      console.log('⏭️  STEP 2: Skipped - no new or changed products');
+      await skipJobStep(currentJobId, 'llm_batches', { skipped: unchangedCount });
+    }
     
     // Step 3: Save everything to database
+    await throwIfCancelled(currentJobId);
     console.log('\n💾 STEP 3: Saving products, embeddings, and tags to database...');
     const step3Start = Date.now();
+    await startJobStep(currentJobId, 'save_products');
     await saveProductsWithData(client, shopId, products, productData);
+    const archivedCount = await archiveRemovedProducts(client, shopId, products.map(p => p.id));
+    if (archivedCount > 0) {
+      console.log(`🗄️  Archived ${archivedCount} products no longer in the catalog`);
+    }
+    await completeJobStep(currentJobId, 'save_products', Date.now() - step3Start, {
+      total: products.length,
+      changed: changedProducts.length,
+    });
     console.log(`⏱️  STEP 3 completed in ${Date.now() - step3Start}ms`);
-    console.log(`✅ Saved ${products.length} products with embeddings and tags\n`);
+    console.log(`✅ Saved ${products.length} products (${changedProducts.length} with new embeddings and tags)\n`);
+    if (needsReembedding) {
+      console.log('🧮 Some batches lack primary embeddings - re-embedding them in the background\n');
+      startBackgroundReembedding();
+    }
     
     // Step 4: Compute product scores
     console.log('📊 STEP 4: Computing merchant and purchase scores...');
     const step4Start = Date.now();
+    await startJobStep(currentJobId, 'scoring');
     await computeProductScores(client, shopId);
+    await completeJobStep(currentJobId, 'scoring', Date.now() - step4Start);
     console.log(`⏱️  STEP 4 completed in ${Date.now() - step4Start}ms`);
     console.log('✅ Scores computed\n');
     
+    // Step 4b: Rebuild the co-purchase graph from purchase events
+    await throwIfCancelled(currentJobId);
+    console.log('🛒 STEP 4b: Building co-purchase graph from orders...');
+    const copurchaseStart = Date.now();
+    await startJobStep(currentJobId, 'copurchase');
+    const copurchasePairs = await buildCoPurchaseGraph(client, shopId);
+    await completeJobStep(currentJobId, 'copurchase', Date.now() - copurchaseStart, { total: copurchasePairs });
+    console.log(`⏱️  STEP 4b completed in ${Date.now() - copurchaseStart}ms`);
+    console.log(`✅ Stored ${copurchasePairs} co-purchase pairs\n`);
+    
     // Step 5: Collect all unique tags from DATABASE (not from memory)
+    await throwIfCancelled(currentJobId);
     console.log('🏷️  STEP 5: Collecting all unique tags from database...');
     const step5Start = Date.now();
+    await startJobStep(currentJobId, 'tag_graph');
+    // Graph nodes are the primary product-type tags (first tag, from the LLM); the normalized
+    // tags after it (title words, vendor:, price:) only widen tag-overlap retrieval
+    // Most used first - the tag graph offers popular tags as related tags before rare ones
     const tagsResult = await client.query(
-      `SELECT DISTINCT tags as tag FROM products WHERE shop_id = $1 AND tags IS NOT NULL`,
+      `SELECT tags[1] AS tag
+       FROM products
+       WHERE shop_id = $1 AND status = 'active' AND cardinality(tags) > 0
+       GROUP BY tags[1]
+       ORDER BY COUNT(*) DESC, tags[1]`,
       [shopId]
     );
-    const uniqueTags = tagsResult.rows.map(row => row.tag);
+    const uniqueTags: string[] = tagsResult.rows.map((row: any) => row.tag);
+    const tagSetHash = computeTagSetHash(uniqueTags);
     console.log(`⏱️  STEP 5 completed in ${Date.now() - step5Start}ms`);
     console.log(`✅ Found ${uniqueTags.length} unique tags from database\n`);
     
-    // Step 6: Build tag graph with LLM (send all tags at once)
-    console.log('🔗 STEP 6: Building tag relationship graph with LLM...');
-    const step6Start = Date.now();
-    const tagGraph = await buildTagGraphWithLLM(uniqueTags);
+    // Step 6: Build tag graph with LLM (in chunks) - only when the tag set changed
+    let tagGraph = new Map<string, TagEdge[]>();
+    if (!forceRebuild && tagSetHash === await getLastTagSetHash(shopId)) {
+      console.log('⏭️  STEP 6: Skipped - tag set unchanged, keeping existing tag graph\n');
+      await skipJobStep(currentJobId, 'tag_graph', { total: uniqueTags.length });
+      await setJobTagSetHash(currentJobId, tagSetHash);
+    } else {
+      console.log('🔗 STEP 6: Building tag relationship graph with LLM...');
+      const step6Start = Date.now();
+      const llmOutput = emptyLLMOutputStats();
+      const { graph, coverage } = await buildTagGraphWithLLM(uniqueTags, {
+        checkCancelled: () => throwIfCancelled(currentJobId),
+        onBatchComplete: (done, total) => updateJobStepProgress(currentJobId, 'tag_graph', done, total),
+        llmOutput,
+      }, await getTagCoPurchaseAffinity(client, shopId));
+      
+      const { min_coverage, on_low_coverage } = config.tag_graph;
+      if (coverage.coverage < min_coverage) {
+        const message = `Tag graph covers ${(coverage.coverage * 100).toFixed(1)}% of tags (minimum ${(min_coverage * 100).toFixed(0)}%)`;
+        if (on_low_coverage === 'fail') {
+          await failJobStep(currentJobId, 'tag_graph', message, { coverage, llm_output: llmOutput });
+          throw new Error(message);
+        }
+        // Keep the previous graph; the tag set hash is not recorded so the next run retries
+        console.log(`⚠️  ${message} - keeping previous graph\n`);
+        await completeJobStep(currentJobId, 'tag_graph', Date.now() - step5Start, {
+          coverage,
+          llm_output: llmOutput,
+          error: `${message} - kept previous graph`,
+        });
+      } else {
+        // Save tag graph to database
+        console.log('💾 Saving tag graph to database...');
+        const dbSaveStart = Date.now();
+        tagGraph = graph;
+        await saveTagGraphToDatabase(client, shopId, tagGraph);
+        if (tagGraph.size > 0) {
+          await setJobTagSetHash(currentJobId, tagSetHash);
+        }
+        await completeJobStep(currentJobId, 'tag_graph', Date.now() - step5Start, { coverage, llm_output: llmOutput });
+        console.log(`⏱️  Database save time: ${Date.now() - dbSaveStart}ms`);
+        console.log(`✅ Tag graph saved with ${tagGraph.size} tags\n`);
+      }
+      console.log(`⏱️  STEP 6 total time: ${Date.now() - step6Start}ms`);
+    }
     
-    // Save tag graph to database
-    console.log('💾 Saving tag graph to database...');
-    const dbSaveStart = Date.now();
-    await saveTagGraphToDatabase(client, tagGraph);
-    console.log(`⏱️  Database save time: ${Date.now() - dbSaveStart}ms`);
-    console.log(`⏱️  STEP 6 total time: ${Date.now() - step6Start}ms`);
-    console.log(`✅ Tag graph saved with ${tagGraph.size} tags\n`);
+    // Step 7: Build and store every product's upsell and crosssell lists
+    await throwIfCancelled(currentJobId);
+    console.log(`📋 STEP 7: Building recommendation lists (${config.recommendation_lists.ranking_mode} ranking)...`);
+    const step7Start = Date.now();
+    await startJobStep(currentJobId, 'recommendation_lists');
+    const lists = await buildRecommendationLists(shopId, {
+      checkCancelled: () => throwIfCancelled(currentJobId),
+      onBatchComplete: (done, total) => updateJobStepProgress(currentJobId, 'recommendation_lists', done, total),
+    });
+    await completeJobStep(currentJobId, 'recommendation_lists', Date.now() - step7Start, { failed: lists.failed });
+    console.log(`⏱️  STEP 7 completed in ${Date.now() - step7Start}ms`);
+    console.log(`✅ Stored recommendation lists for ${lists.built} products (${lists.failed} failed)\n`);
     
-    // Mark process as completed
-    await client.query(
-      `UPDATE process_tracker 
-       SET status = 'completed', completed_at = CURRENT_TIMESTAMP 
-       WHERE id = $1`,
-      [trackerId]
-    );
+    // Mark process as completed - cached responses were built from the previous run
+    await finishJob(currentJobId, 'completed');
+    await invalidateShopCache(shopId);
     
     const totalVariants = products.reduce((sum, p) => sum + p.variants.length, 0);
     const totalTime = Date.now() - overallStartTime;
@@ -98,15 +241,27 @@ export async function runPrecomputation(shopId: string, forceRebuild: boolean =
     console.log('✅ PRECOMPUTATION COMPLETED SUCCESSFULLY');
     console.log('='.repeat(60));
     console.log(`   Shop ID: ${shopId}`);
-    console.log(`   Products processed: ${products.length}`);
+    console.log(`   Products in catalog: ${products.length}`);
+    console.log(`   Products processed: ${changedProducts.length} (${unchangedCount} unchanged)`);
     console.log(`   Total variants: ${totalVariants}`);
     console.log(`   Unique tags: ${uniqueTags.length}`);
-    console.log(`   Tag relationships: ${tagGraph.size}`);
+    console.log(`   Co-purchase pairs: ${copurchasePairs}`);
+    console.log(`   Tag relationships: ${tagGraph.size > 0 ? tagGraph.size : 'unchanged'}`);
+    console.log(`   Recommendation lists: ${lists.built}`);
     console.log(`   Status: Ready for recommendations`);
     console.log(`   ⏱️  Total time: ${totalTime}ms (${(totalTime / 1000).toFixed(2)}s)`);
     console.log('='.repeat(60) + '\n');
     console.log('='.repeat(60) + '\n');
   } catch (error) {
+    // Cancellation is a normal outcome, not a failure
+    if (error instanceof PrecomputeCancelledError) {
+      console.log(`\n🛑 PRECOMPUTATION CANCELLED (job ${trackerId})\n`);
+      if (trackerId) {
+        await finishJob(trackerId, 'cancelled');
+      }
+      return;
+    }
+    
     console.error('\n' + '❌'.repeat(30));
     console.error('❌ PRECOMPUTATION FAILED');
     console.error('❌'.repeat(30));
@@ -118,10 +273,7 @@ export async function runPrecomputation(shopId: string, forceRebuild: boolean =
     
     // Mark process as failed
     if (trackerId) {
-      await client.query(
-        'UPDATE process_tracker SET status = $1 WHERE id = $2',
-        ['failed', trackerId]
-      );
+      await finishJob(trackerId, 'failed', error instanceof Error ? error.message : 'Unknown error');
     }
     
     throw error;
@@ -130,51 +282,102 @@ export async function runPrecomputation(shopId: string, forceRebuild: boolean =
   }
 }
 
-// Load products from the JSON catalog
-async function loadProductCatalog(shopId: string): Promise<CatalogProduct[]> {
-  // In production, this would load from S3 or Shopify API
-  // For now, we'll load from our local JSON file
-  const fs = await import('fs/promises');
-  const path = await import('path');
-  
-  const catalogPath = path.join(process.cwd(), 'src', 'data', 'products.json');
-  const catalogData = await fs.readFile(catalogPath, 'utf-8');
-  const catalog = JSON.parse(catalogData);
-  
-  return catalog.products.map((p: any) => ({
-    ...p,
-    status: p.status || 'active',
-    stock: calculateStock(p.variants),
-    tags: p.tags || [],
-  }));
+// Archive products that are no longer in the shop's catalog so they drop out of recommendations
+// (content_hash is cleared so a product that comes back is processed again)
+async function archiveRemovedProducts(client: any, shopId: string, catalogIds: number[]): Promise<number> {
+  const result = await client.query(
+    `UPDATE products
+     SET status = 'archived', content_hash = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE shop_id = $1 AND status <> 'archived' AND id <> ALL($2::bigint[])`,
+    [shopId, catalogIds]
+  );
+  return result.rowCount || 0;
+}
+
+// Hash of everything that feeds tagging/embedding - unchanged hash means tagging and embedding can be skipped
+// (status, weight and stock are saved on every run, see saveProductsWithData)
+export function computeContentHash(product: CatalogProduct): string {
+  const content = {
+    title: product.title,
+    category: product.category,
+    vendor: product.vendor,
+    price: Number(product.price),
+    tags: [...(product.tags || [])].sort(),
+    variants: (product.variants || []).map(v => ({
+      id: v.id,
+      title: v.title,
+      price: Number(v.price),
+      inventory_quantity: v.inventory_quantity,
+    })),
+  };
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
 }
 
-function calculateStock(variants: any[]): number {
-  return variants.reduce((sum, v) => sum + (v.inventory_quantity || 0), 0);
+// Bump when the stored graph format changes so every shop's graph is rebuilt once
+const TAG_GRAPH_FORMAT = 'typed-weighted-v1';
+
+// Order-independent hash of a shop's tag set
+function computeTagSetHash(tags: string[]): string {
+  return createHash('sha256').update(TAG_GRAPH_FORMAT).update(JSON.stringify([...tags].sort())).digest('hex');
+}
+
+// Content hashes from the previous run, keyed by product id
+async function loadContentHashes(client: any, shopId: string): Promise<Map<number, string>> {
+  const result = await client.query(
+    'SELECT id, content_hash FROM products WHERE shop_id = $1 AND content_hash IS NOT NULL',
+    [shopId]
+  );
+  // pg returns BIGINT as string
+  return new Map(result.rows.map((row: any) => [Number(row.id), row.content_hash]));
 }
 
 // Save products with embeddings and tags all at once
-async function saveProductsWithData(
+// Products without productData (content hash unchanged) keep their tags and embedding; their catalog
+// columns (status, weight, stock, ...) are still refreshed, so e.g. a product set to draft stops being recommended
+export async function saveProductsWithData(
   client: any,
   shopId: string,
   products: CatalogProduct[],
-  productData: Map<number, { embedding: number[]; tags: string[] }>
+  productData: Map<number, ProductEmbeddingData>
 ): Promise<void> {
   for (const product of products) {
     const data = productData.get(product.id);
-    if (!data) continue;
-    
-    // Store only the first tag as a plain string
-    const primaryTag = data.tags[0] || 'product';
+    if (!data) {
+      await client.query(
+        `UPDATE products SET
+          title = $3,
+          category = $4,
+          weight = $5,
+          vendor = $6,
+          price = $7,
+          variants = $8,
+          status = $9,
+          stock = $10,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE shop_id = $2 AND id = $1`,
+        [
+          product.id,
+          shopId,
+          product.title,
+          product.category,
+          product.weight || 1.0,
+          product.vendor,
+          product.price,
+          JSON.stringify(product.variants),
+          product.status,
+          product.stock,
+        ]
+      );
+      continue;
+    }
     
     await client.query(
       `INSERT INTO products (
         id, shop_id, title, category, tags, weight, vendor, price, variants, 
         status, stock, merchant_score, purchase_score, embedding, embedding_version,
-        created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-      ON CONFLICT (id) DO UPDATE SET
-        shop_id = $2,
+        description, content_hash, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (shop_id, id) DO UPDATE SET
         title = $3,
         category = $4,
         tags = $5,
@@ -186,13 +389,15 @@ async function saveProductsWithData(
         stock = $11,
         embedding = $14,
         embedding_version = $15,
+        description = $16,
+        content_hash = $17,
         updated_at = CURRENT_TIMESTAMP`,
       [
         product.id,
         shopId,
         product.title,
         product.category,
-        primaryTag, // LLM-generated tags
+        data.tags.length > 0 ? data.tags : ['product'], // LLM tags merged with normalized tags
         product.weight || 1.0,
         product.vendor,
         product.price,
@@ -201,44 +406,60 @@ async function saveProductsWithData(
         product.stock,
         product.merchant_score || 0,
         product.purchase_score || 0,
-        data.embedding, // LLM-generated embedding
-        config.embedding.version,
+        data.embedding, // Provider-generated embedding
+        data.embedding_version, // null or a fallback version = re-embed in background
+        data.description,
+        computeContentHash(product),
       ]
     );
   }
 }
 
-// Save tag graph to database
+// Save tag graph to database - replaces this shop's graph, other shops are untouched
 async function saveTagGraphToDatabase(
   client: any,
-  tagGraph: Map<string, string[]>
+  shopId: string,
+  tagGraph: Map<string, TagEdge[]>
 ): Promise<void> {
-  for (const [tagName, children] of tagGraph) {
-    // Validate children array - remove any invalid entries
-    const validChildren = children.filter(c => c && typeof c === 'string' && c.trim().length > 0);
-    
-    if (validChildren.length === 0) {
-      console.log(`⚠️  Skipping tag "${tagName}" - no valid children`);
+  // An empty graph means the LLM step failed - keep the previous graph
+  if (tagGraph.size === 0) {
+    console.log('⚠️  Empty tag graph - keeping previous graph for this shop');
+    return;
+  }
+  
+  // Drop tags that are no longer part of this shop's graph
+  await client.query(
+    'DELETE FROM tag_graph WHERE shop_id = $1 AND tag_name <> ALL($2::text[])',
+    [shopId, Array.from(tagGraph.keys())]
+  );
+  
+  for (const [tagName, edges] of tagGraph) {
+    if (edges.length === 0) {
+      console.log(`⚠️  Skipping tag "${tagName}" - no valid edges`);
       continue;
     }
     
+    // children keeps the plain list of related tags, whatever the relation
+    const children = Array.from(new Set(edges.map(e => e.tag)));
+    
     try {
       await client.query(
-        `INSERT INTO tag_graph (tag_name, children, updated_at) 
-         VALUES ($1, $2, CURRENT_TIMESTAMP)
-         ON CONFLICT (tag_name) 
-         DO UPDATE SET children = $2, updated_at = CURRENT_TIMESTAMP`,
-        [tagName, validChildren]
+        `INSERT INTO tag_graph (shop_id, tag_name, children, edges, updated_at) 
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+         ON CONFLICT (shop_id, tag_name) 
+         DO UPDATE SET children = $3, edges = $4, updated_at = CURRENT_TIMESTAMP`,
+        [shopId, tagName, children, JSON.stringify(edges)]
       );
     } catch (error: any) {
       console.error(`❌ Failed to save tag "${tagName}":`, error.message);
-      console.error(`   Children:`, JSON.stringify(validChildren));
+      console.error(`   Edges:`, JSON.stringify(edges));
       throw error;
     }
   }
 }
 
-async function computeProductScores(client: any, shopId: string): Promise<void> {
+// Compute scores for every product of the shop, or only for productId (single-product upserts)
+export async function computeProductScores(client: any, shopId: string, productId: number | null = null): Promise<void> {
   // Compute merchant score based on stock and availability
   await client.query(
     `UPDATE products 
@@ -248,15 +469,10 @@ async function computeProductScores(client: any, shopId: string): Promise<void>
        WHEN stock > 0 THEN 0.4
        ELSE 0.1
      END
-     WHERE shop_id = $1`,
-    [shopId]
+     WHERE shop_id = $1 AND ($2::bigint IS NULL OR id = $2)`,
+    [shopId, productId]
   );
   
-  // Compute purchase score (simulated - in production, use real purchase data)
-  await client.query(
-    `UPDATE products 
-     SET purchase_score = RANDOM() * 0.5 + 0.5
-     WHERE shop_id = $1`,
-    [shopId]
-  );
+  // Compute purchase score from time-decayed storefront events
+  await computePurchaseScores(client, shopId, productId);
 }
@@ -0,0 +1,112 @@
+import { pool } from '../database/db.js';
+import type { CatalogProduct } from '../types/index.js';
+import { batchGenerateEmbeddings } from './embedding-service.js';
+import { computeProductScores, saveProductsWithData } from './precompute-service.js';
+import { validateCatalogProduct } from './catalog-service.js';
+import { fromShopifyProduct } from './catalog-source.js';
+import { invalidateShopCache } from './cache-service.js';
+
+// The webhook payload is not a valid product
+export class ProductValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid product: ${errors.join('; ')}`);
+    this.name = 'ProductValidationError';
+    this.errors = errors;
+  }
+}
+
+// Accept a Shopify product webhook payload, or our own CatalogProduct shape
+function toCatalogRecord(payload: any): any {
+  const isShopify = payload && ('product_type' in payload || typeof payload.tags === 'string');
+  return isShopify ? fromShopifyProduct(payload) : payload;
+}
+
+/**
+ * Upsert a single product (Shopify products/create and products/update webhooks)
+ * Tags and embeds it through the same batch path as precompute, so it is a candidate immediately
+ */
+export async function upsertProduct(
+  shopId: string,
+  productId: number,
+  payload: any
+): Promise<{ product: CatalogProduct; tags: string[]; embedding_version: string | null }> {
+  const record = toCatalogRecord({ ...payload, id: payload?.id ?? productId });
+  const { product, errors } = validateCatalogProduct(record);
+  if (!product) {
+    throw new ProductValidationError(errors);
+  }
+  if (product.id !== productId) {
+    throw new ProductValidationError([`body id ${product.id} does not match path id ${productId}`]);
+  }
+
+  console.log(`🔄 Upserting product ${productId} for shop ${shopId}`);
+  const productData = await batchGenerateEmbeddings([product]);
+  const data = productData.get(product.id);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Keep the stored catalog in sync so the next precompute sees the same product
+    await client.query(
+      `INSERT INTO catalog_products (shop_id, id, data, source_format, updated_at)
+       VALUES ($1, $2, $3, 'webhook', CURRENT_TIMESTAMP)
+       ON CONFLICT (shop_id, id) DO UPDATE SET
+         data = $3, source_format = 'webhook', updated_at = CURRENT_TIMESTAMP`,
+      [shopId, product.id, JSON.stringify(product)]
+    );
+
+    await saveProductsWithData(client, shopId, [product], productData);
+    await computeProductScores(client, shopId, product.id);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await invalidateShopCache(shopId);
+
+  return {
+    product,
+    tags: data?.tags || [],
+    embedding_version: data?.embedding_version ?? null, // a fallback provider's version when the primary failed
+  };
+}
+
+/**
+ * Delete a single product (Shopify products/delete webhook)
+ * @returns false if the shop had no such product
+ */
+export async function deleteProduct(shopId: string, productId: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const products = await client.query(
+      'DELETE FROM products WHERE shop_id = $1 AND id = $2',
+      [shopId, productId]
+    );
+    const catalog = await client.query(
+      'DELETE FROM catalog_products WHERE shop_id = $1 AND id = $2',
+      [shopId, productId]
+    );
+    await client.query(
+      'DELETE FROM product_recommendations WHERE shop_id = $1 AND product_id = $2',
+      [shopId, productId]
+    );
+    await client.query('COMMIT');
+    await invalidateShopCache(shopId);
+
+    console.log(`🗑️  Deleted product ${productId} for shop ${shopId}`);
+    return (products.rowCount || 0) + (catalog.rowCount || 0) > 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
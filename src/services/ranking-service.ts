@@ -0,0 +1,251 @@
+import type { ScoredProduct, ProductVariant, RankingWeights, RecommendedVariant } from '../types/index.js';
+import { cosineSimilarity } from './embedding-service.js';
+import { getEmbeddingVersion } from './embedding-provider.js';
+import { config } from '../config.js';
+
+// Real per-candidate signals, combined with config.ranking.weights into a single score
+export interface CandidateScore {
+  score: number;
+  embedding_similarity: number;
+  merchant_score: number;
+  purchase_score: number;
+  price_similarity: number;
+}
+
+// How to pick the variant of each recommended product
+export interface VariantSelection {
+  source_options: string[]; // option values of the source variants, e.g. ["m", "blue"]
+  include_variants: boolean;
+}
+
+export const DEFAULT_VARIANT_SELECTION: VariantSelection = { source_options: [], include_variants: false };
+
+// Option values of a variant title ("Blue / M" → ["blue", "m"]); Shopify's "Default Title" has none
+export function getVariantOptions(variantTitle: string | undefined): string[] {
+  if (!variantTitle || variantTitle === 'Default Title') return [];
+  return variantTitle.split('/').map(o => o.trim().toLowerCase()).filter(Boolean);
+}
+
+// In-stock variants, best first: most options shared with the source variants, then most stock
+export function rankVariants(variants: ProductVariant[], sourceOptions: string[]): ProductVariant[] {
+  const matches = (variant: ProductVariant) =>
+    getVariantOptions(variant.title).filter(o => sourceOptions.includes(o)).length;
+
+  return variants
+    .filter(v => (v.inventory_quantity || 0) > 0)
+    .map(v => ({ variant: v, matches: matches(v) }))
+    .sort((a, b) => b.matches - a.matches || b.variant.inventory_quantity - a.variant.inventory_quantity)
+    .map(({ variant }) => variant);
+}
+
+// Average price of the source products (pg returns NUMERIC as string, so coerce)
+export function getAverageSourcePrice(sourceProducts: any[]): number {
+  if (sourceProducts.length === 0) return 0;
+  return sourceProducts.reduce((sum, p) => sum + Number(p.price || 0), 0) / sourceProducts.length;
+}
+
+// Price similarity in [0, 1]: 1 when equal, falling off with the relative price gap
+export function computePriceSimilarity(sourcePrice: number, candidatePrice: number): number {
+  const a = Number(sourcePrice) || 0;
+  const b = Number(candidatePrice) || 0;
+  const max = Math.max(a, b);
+  if (max <= 0) return 0;
+  return 1 - Math.abs(a - b) / max;
+}
+
+// Price an upsell is measured against: the average of the source products of the same type
+// (all source products when the candidate's type isn't among them)
+export function getUpsellReferencePrice(sourceProducts: any[], candidate: any): number {
+  const sameCategory = sourceProducts.filter(p => p.category === candidate.category);
+  return getAverageSourcePrice(sameCategory.length > 0 ? sameCategory : sourceProducts);
+}
+
+// Cart value for the crosssell ceiling: the source products' prices summed
+export function getCartValue(sourceProducts: any[]): number {
+  return sourceProducts.reduce((sum, p) => sum + Number(p.price || 0), 0);
+}
+
+/**
+ * Check a recommendation against config.pricing
+ * Upsell: same product type, min_ratio-max_ratio x the reference price, never cheaper than it.
+ * Crosssell: at most max_cart_ratio x the cart value.
+ * @returns Why the price band rejects it, or null when it fits
+ */
+export function checkPriceBand(
+  sourceProducts: any[],
+  candidate: any,
+  price: number,
+  recommendationType: 'upsell' | 'crosssell'
+): string | null {
+  if (recommendationType === 'upsell') {
+    const band = config.pricing.upsell;
+    if (band.same_category && !sourceProducts.some(p => p.category === candidate.category)) {
+      return `not the source product type (${candidate.category})`;
+    }
+    const reference = getUpsellReferencePrice(sourceProducts, candidate);
+    if (reference <= 0) return null;
+    if (price < reference) {
+      return `cheaper than the source ($${price} < $${reference.toFixed(2)})`;
+    }
+    const ratio = price / reference;
+    if (ratio < band.min_ratio || ratio > band.max_ratio) {
+      return `priced ${ratio.toFixed(2)}x the source, outside ${band.min_ratio}x-${band.max_ratio}x`;
+    }
+    return null;
+  }
+
+  const cartValue = getCartValue(sourceProducts);
+  const ceiling = cartValue * config.pricing.crosssell.max_cart_ratio;
+  if (cartValue > 0 && price > ceiling) {
+    return `priced above the crosssell ceiling ($${price} > $${ceiling.toFixed(2)}, ${config.pricing.crosssell.max_cart_ratio}x the cart)`;
+  }
+  return null;
+}
+
+// Recommendations whose selected variant price fits the type's price band (see checkPriceBand);
+// keepIds (pinned products) are kept whatever their price
+export function filterByPriceBand(
+  sourceProducts: any[],
+  products: ScoredProduct[],
+  recommendationType: 'upsell' | 'crosssell',
+  keepIds: Set<number> = new Set()
+): ScoredProduct[] {
+  return products.filter(product => keepIds.has(Number(product.id))
+    || checkPriceBand(sourceProducts, product, product.price, recommendationType) === null);
+}
+
+// Embedding of a product row, or null if it was produced by another embedding version or provider
+export function getCurrentEmbedding(product: any, version: string = getEmbeddingVersion()): number[] | null {
+  if (!product.embedding || product.embedding.length === 0) return null;
+  if (product.embedding_version !== version) return null;
+  return product.embedding;
+}
+
+// Best cosine similarity between the candidate and any source product, mapped to [0, 1]
+// Vectors from different embedding versions are never compared
+export function computeEmbeddingSimilarity(sourceProducts: any[], candidate: any): number {
+  const version = getEmbeddingVersion();
+  const candidateEmbedding = getCurrentEmbedding(candidate, version);
+  if (!candidateEmbedding) return 0;
+
+  let best: number | null = null;
+  for (const source of sourceProducts) {
+    const sourceEmbedding = getCurrentEmbedding(source, version);
+    // Skip vectors that cannot be compared (missing or different dimensions)
+    if (!sourceEmbedding || sourceEmbedding.length !== candidateEmbedding.length) continue;
+
+    const similarity = cosineSimilarity(sourceEmbedding, candidateEmbedding);
+    if (best === null || similarity > best) {
+      best = similarity;
+    }
+  }
+
+  if (best === null) return 0;
+  return Math.max(0, Math.min(1, (best + 1) / 2));
+}
+
+// Score a candidate at a given price against the source products using the configured weights
+// An upsell's price_similarity is measured against target_ratio x its reference price, so pricier-but-in-band wins
+export function scoreCandidate(
+  sourceProducts: any[],
+  candidate: any,
+  price: number = candidate.price,
+  recommendationType?: 'upsell' | 'crosssell',
+  weights: RankingWeights = config.ranking.weights
+): CandidateScore {
+  const embedding_similarity = computeEmbeddingSimilarity(sourceProducts, candidate);
+  const targetPrice = recommendationType === 'upsell'
+    ? getUpsellReferencePrice(sourceProducts, candidate) * config.pricing.upsell.target_ratio
+    : getAverageSourcePrice(sourceProducts);
+  const price_similarity = computePriceSimilarity(targetPrice, Number(price));
+  const merchant_score = Number(candidate.merchant_score) || 0;
+  const purchase_score = Number(candidate.purchase_score) || 0;
+
+  const score =
+    weights.embedding_similarity * embedding_similarity +
+    weights.purchase_score * purchase_score +
+    weights.merchant_score * merchant_score +
+    weights.price_similarity * price_similarity;
+
+  return {
+    score: Number(score.toFixed(4)),
+    embedding_similarity: Number(embedding_similarity.toFixed(4)),
+    merchant_score,
+    purchase_score,
+    price_similarity: Number(price_similarity.toFixed(4)),
+  };
+}
+
+// One scored entry per candidate, at its selected in-stock variant; null when nothing is in stock
+export function toScoredProduct(
+  sourceProducts: any[],
+  candidate: any,
+  selection: VariantSelection = DEFAULT_VARIANT_SELECTION,
+  recommendationType?: 'upsell' | 'crosssell',
+  weights: RankingWeights = config.ranking.weights
+): ScoredProduct | null {
+  const variants = rankVariants(candidate.variants || [], selection.source_options);
+  const selected = variants[0];
+  if (!selected) return null;
+
+  const reasons: string[] = [...(candidate.reasons || [])];
+  const matchedOptions = getVariantOptions(selected.title).filter(o => selection.source_options.includes(o));
+  if (matchedOptions.length > 0) {
+    reasons.push(`variant ${selected.title} matches source option ${matchedOptions.join(' / ')}`);
+  }
+
+  const scored: ScoredProduct = {
+    id: candidate.id,
+    title: candidate.title,
+    variant_id: selected.id,
+    variant_title: selected.title,
+    category: candidate.category,
+    price: Number(selected.price),
+    vendor: candidate.vendor,
+    ...scoreCandidate(sourceProducts, candidate, Number(selected.price), recommendationType, weights),
+    reasons,
+    channels: candidate.channels || [],
+  };
+
+  if (selection.include_variants) {
+    scored.variants = variants.map((v): RecommendedVariant => ({
+      variant_id: v.id,
+      variant_title: v.title,
+      price: Number(v.price),
+      inventory_quantity: v.inventory_quantity,
+    }));
+  }
+
+  return scored;
+}
+
+// Weighted ranking without an LLM call - candidates within each type's price band, sorted by score
+// (crosssell also leaves out the source products' own types)
+export function rankCandidatesWeighted(
+  sourceProducts: any[],
+  candidates: any[],
+  recommendationType: Array<'upsell' | 'crosssell'>,
+  selection: VariantSelection = DEFAULT_VARIANT_SELECTION,
+  weights: RankingWeights = config.ranking.weights
+): { upsell: ScoredProduct[]; crosssell: ScoredProduct[] } {
+  const ranked: { upsell: ScoredProduct[]; crosssell: ScoredProduct[] } = { upsell: [], crosssell: [] };
+
+  for (const type of recommendationType) {
+    for (const candidate of candidates) {
+      if (type === 'crosssell' && sourceProducts.some(p => p.category === candidate.category)) continue;
+
+      const scored = toScoredProduct(sourceProducts, candidate, selection, type, weights);
+      if (!scored || checkPriceBand(sourceProducts, candidate, scored.price, type) !== null) continue;
+
+      scored.reasons.push(`weighted score ${scored.score}`);
+      ranked[type].push(scored);
+    }
+
+    // The diversity stage picks the final list from this pool
+    ranked[type] = ranked[type]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.diversity.pool_size);
+  }
+
+  return ranked;
+}
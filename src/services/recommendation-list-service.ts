@@ -0,0 +1,231 @@
+import { pool } from '../database/db.js';
+import type {
+  AppliedRule,
+  ProductVariant,
+  RankingMode,
+  RecommendationOptions,
+  RecommendationResult,
+  ScoredProduct,
+} from '../types/index.js';
+import { config } from '../config.js';
+import { getRecommendations } from './recommendation-service.js';
+import { filterByPriceBand, getVariantOptions, rankVariants } from './ranking-service.js';
+import type { BatchProgressOptions } from './embedding-service.js';
+
+type RecommendationType = 'upsell' | 'crosssell';
+
+// Stored lists for a request, merged across its source products
+export interface PrecomputedRecommendations {
+  recommendations: RecommendationResult; // with the merchandising rules applied when the lists were built
+  ranking_mode: RankingMode;
+  computed_at: Date; // oldest list used
+}
+
+/**
+ * Build and store the top-N upsell and crosssell lists of every active product of the shop
+ * Each product runs through the live pipeline with config.recommendation_lists.ranking_mode;
+ * products are processed config.recommendation_lists.batch_size at a time.
+ * @returns Number of products with stored lists
+ */
+export async function buildRecommendationLists(
+  shopId: string,
+  options: BatchProgressOptions = {}
+): Promise<{ built: number; failed: number }> {
+  const { ranking_mode, batch_size } = config.recommendation_lists;
+  const result = await pool.query(
+    `SELECT id FROM products WHERE shop_id = $1 AND status = 'active' ORDER BY id`,
+    [shopId]
+  );
+  // pg returns BIGINT as string
+  const productIds: number[] = result.rows.map((row: any) => Number(row.id));
+  const totalBatches = Math.ceil(productIds.length / batch_size);
+  let built = 0;
+  let failed = 0;
+
+  for (let i = 0; i < productIds.length; i += batch_size) {
+    await options.checkCancelled?.();
+
+    const batch = productIds.slice(i, i + batch_size);
+    await Promise.all(batch.map(async productId => {
+      try {
+        // Every in-stock variant is kept so the served variant can follow the request's variant_ids
+        const recommendations = await getRecommendations(
+          shopId,
+          [productId],
+          ['upsell', 'crosssell'],
+          ranking_mode,
+          { include_variants: true }
+        );
+        await saveRecommendationList(shopId, productId, ranking_mode, recommendations);
+        built++;
+      } catch (error: any) {
+        failed++;
+        console.error(`❌ Recommendation list for product ${productId} failed:`, error.message);
+      }
+    }));
+
+    await options.onBatchComplete?.(i / batch_size + 1, totalBatches);
+  }
+
+  // Lists of products that are no longer active
+  await pool.query(
+    'DELETE FROM product_recommendations WHERE shop_id = $1 AND product_id <> ALL($2::bigint[])',
+    [shopId, productIds]
+  );
+
+  return { built, failed };
+}
+
+async function saveRecommendationList(
+  shopId: string,
+  productId: number,
+  rankingMode: RankingMode,
+  recommendations: RecommendationResult
+): Promise<void> {
+  for (const type of ['upsell', 'crosssell'] as RecommendationType[]) {
+    const appliedRules = (recommendations.applied_rules || []).filter(rule => rule.recommendation_type === type);
+    await pool.query(
+      `INSERT INTO product_recommendations (shop_id, product_id, recommendation_type, ranking_mode, items, applied_rules, computed_at)
+       VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+       ON CONFLICT (shop_id, product_id, recommendation_type) DO UPDATE SET
+         ranking_mode = $4, items = $5, applied_rules = $6, computed_at = CURRENT_TIMESTAMP`,
+      [shopId, productId, type, rankingMode, JSON.stringify(recommendations[type]), JSON.stringify(appliedRules)]
+    );
+  }
+}
+
+/**
+ * Serve recommendations from the stored lists, in their stored order (pins, diversity and LLM order included)
+ * Lists of several source products are merged (see mergeStoredLists, source products excluded).
+ * @returns null when any source product has no stored list - the caller falls back to the live path
+ */
+export async function getPrecomputedRecommendations(
+  shopId: string,
+  productIds: number[],
+  recommendationType: RecommendationType[],
+  options: RecommendationOptions = {}
+): Promise<PrecomputedRecommendations | null> {
+  const result = await pool.query(
+    `SELECT product_id, recommendation_type, ranking_mode, items, applied_rules, computed_at
+     FROM product_recommendations
+     WHERE shop_id = $1 AND product_id = ANY($2::bigint[]) AND recommendation_type = ANY($3::text[])`,
+    [shopId, productIds, recommendationType]
+  );
+
+  if (result.rows.length < productIds.length * recommendationType.length) {
+    return null;
+  }
+
+  // Source products' type and price, for the price bands
+  const sources = await pool.query(
+    'SELECT id, category, price FROM products WHERE shop_id = $1 AND id = ANY($2::bigint[])',
+    [shopId, productIds]
+  );
+  const sourceProducts = sources.rows;
+
+  // Variant options of the requested source variants, looked up on the source products
+  let sourceOptions: string[] = [];
+  if (options.variant_ids && options.variant_ids.length > 0) {
+    const variants = await pool.query(
+      `SELECT variant->>'title' AS title
+       FROM products, jsonb_array_elements(variants) AS variant
+       WHERE shop_id = $1 AND id = ANY($2::bigint[]) AND (variant->>'id')::bigint = ANY($3::bigint[])`,
+      [shopId, productIds, options.variant_ids]
+    );
+    sourceOptions = Array.from(new Set(variants.rows.flatMap((row: any) => getVariantOptions(row.title))));
+  }
+
+  // Products deleted, archived or sold out since the lists were built are skipped
+  const listedIds = Array.from(new Set(result.rows.flatMap((row: any) => row.items.map((item: ScoredProduct) => Number(item.id)))));
+  const available = await pool.query(
+    `SELECT id FROM products WHERE shop_id = $1 AND id = ANY($2::bigint[]) AND status = 'active' AND stock > 0`,
+    [shopId, listedIds]
+  );
+  const availableIds = new Set(available.rows.map((row: any) => Number(row.id)));
+
+  const recommendations: RecommendationResult = { upsell: [], crosssell: [], applied_rules: [] };
+  for (const type of recommendationType) {
+    // One list per source product, in request order, with the items that can still be served
+    const rows = result.rows
+      .filter((row: any) => row.recommendation_type === type)
+      .sort((a: any, b: any) => productIds.indexOf(Number(a.product_id)) - productIds.indexOf(Number(b.product_id)));
+    const lists = rows.map((row: any) => (row.items as ScoredProduct[])
+      .filter(item => !productIds.includes(Number(item.id)) && availableIds.has(Number(item.id))));
+    const pinnedIds = new Set<number>(rows.flatMap((row: any) => (row.applied_rules as AppliedRule[])
+      .filter(rule => rule.rule_type === 'pin')
+      .flatMap(rule => rule.product_ids.map(Number))));
+
+    // The re-selected variant can be priced differently from the stored one - the price band is checked again
+    const served = mergeStoredLists(lists, pinnedIds)
+      .map(item => selectStoredVariant(item, sourceOptions, options.include_variants === true));
+    recommendations[type] = filterByPriceBand(sourceProducts, served, type, pinnedIds)
+      .slice(0, config.limits.final_recommendations);
+  }
+  recommendations.applied_rules = mergeAppliedRules(result.rows.flatMap((row: any) => row.applied_rules as AppliedRule[]));
+
+  const oldest = result.rows.reduce(
+    (min: any, row: any) => (new Date(row.computed_at) < new Date(min.computed_at) ? row : min),
+    result.rows[0]
+  );
+
+  return {
+    recommendations,
+    ranking_mode: oldest.ranking_mode,
+    computed_at: new Date(oldest.computed_at),
+  };
+}
+
+// Merge the lists of several source products: pinned items first, then the lists interleaved rank by rank,
+// so each list keeps its own order. A product on several lists appears once, at its first (best) slot
+export function mergeStoredLists(lists: ScoredProduct[][], pinnedIds: Set<number>): ScoredProduct[] {
+  const seen = new Set<number>();
+  const pinned: ScoredProduct[] = [];
+  const rest: ScoredProduct[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const item = list[rank];
+      if (!item || seen.has(Number(item.id))) continue;
+      seen.add(Number(item.id));
+      (pinnedIds.has(Number(item.id)) ? pinned : rest).push(item);
+    }
+  }
+  return [...pinned, ...rest];
+}
+
+// One entry per rule and type across the merged lists, affected products combined
+function mergeAppliedRules(appliedRules: AppliedRule[]): AppliedRule[] {
+  const merged = new Map<string, AppliedRule>();
+  for (const rule of appliedRules) {
+    const key = `${rule.rule_id}:${rule.recommendation_type}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.product_ids = Array.from(new Set([...existing.product_ids, ...rule.product_ids]));
+    } else {
+      merged.set(key, { ...rule, product_ids: [...rule.product_ids] });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// Re-select a stored item's variant for the request's source variants; nested variants only when asked for
+function selectStoredVariant(item: ScoredProduct, sourceOptions: string[], includeVariants: boolean): ScoredProduct {
+  const { variants: stored = [], ...product } = item;
+  const variants = rankVariants(
+    stored.map((v): ProductVariant => ({
+      id: v.variant_id,
+      title: v.variant_title,
+      price: v.price,
+      inventory_quantity: v.inventory_quantity,
+    })),
+    sourceOptions
+  );
+  const selected = variants[0];
+
+  return {
+    ...product,
+    reasons: product.reasons || [], // lists stored before reasons existed
+    ...(selected ? { variant_id: selected.id, variant_title: selected.title, price: Number(selected.price) } : {}),
+    ...(includeVariants ? { variants: variants.map(v => stored.find(s => s.variant_id === v.id)!) } : {}),
+  };
+}
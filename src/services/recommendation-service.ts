@@ -1,53 +1,46 @@
 import { pool } from '../database/db.js';
-import type { ScoredProduct } from '../types/index.js';
-import { getRelatedTags } from './tag-service.js';
+import type {
+  AppliedRule,
+  CandidateTrace,
+  LLMRequest,
+  LLMSchema,
+  RankingMode,
+  RankingTrace,
+  RankingWeights,
+  RecommendationOptions,
+  RecommendationResult,
+  RecommendationTrace,
+  RelatedTag,
+  ScoredProduct,
+} from '../types/index.js';
+import { getPrimaryTags, getRelatedTags } from './tag-service.js';
+import {
+  checkPriceBand,
+  getCartValue,
+  getVariantOptions,
+  rankCandidatesWeighted,
+  scoreCandidate,
+  toScoredProduct,
+} from './ranking-service.js';
+import type { VariantSelection } from './ranking-service.js';
+import { getCoPurchaseCandidates, mergeCandidateChannels } from './copurchase-service.js';
+import {
+  applyRankingRules,
+  buildRulePlan,
+  getCandidateStageRules,
+  isCandidateAllowed,
+  loadActiveRules,
+} from './rule-service.js';
+import type { RulePlan } from './rule-service.js';
+import { diversifyRecommendations } from './diversity-service.js';
 import { config } from '../config.js';
-import { NeuroLink } from "@juspay/neurolink";
+import { completeWithSchema, emptyLLMOutputStats, getLLMProviderName } from './llm-service.js';
 
-// API endpoints
-const GRID_AI_URL = 'https://grid.ai.juspay.net/v1/chat/completions';
-const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/chat/completions';
-
-// Check if Neurolink should be used
-function shouldUseNeurolink(): boolean {
-  const useNeurolink = process.env.USE_NEUROLINK?.toLowerCase();
-  return useNeurolink === 'true';
-}
-
-// Get API configuration for recommendations (URL and key)
-function getRecommendationsAPIConfig(): { url: string; apiKey: string; useNeurolink: boolean } {
-  // Check if Neurolink is enabled
-  if (shouldUseNeurolink()) {
-    console.log('🔑 Using Neurolink for recommendations');
-    return {
-      url: '', // Neurolink doesn't use URL
-      apiKey: '',
-      useNeurolink: true
-    };
-  }
-  
-  // Try recommendations-specific Gemini key
-  const recommendationsKey = process.env.RECOMMENDATIONS_API_KEY;
-  if (recommendationsKey && recommendationsKey.trim()) {
-    console.log('🔑 Using RECOMMENDATIONS_API_KEY with Gemini API');
-    return {
-      url: GEMINI_URL,
-      apiKey: recommendationsKey,
-      useNeurolink: false
-    };
-  }
-  
-  // Fall back to general Grid AI key
-  const gridKey = process.env.GRID_AI_API_KEY || '';
-  if (!gridKey) {
-    throw new Error('No API key found: set USE_NEUROLINK=true, RECOMMENDATIONS_API_KEY, or GRID_AI_API_KEY');
-  }
-  console.log('🔑 Using GRID_AI_API_KEY with Grid AI endpoint');
-  return {
-    url: GRID_AI_URL,
-    apiKey: gridKey,
-    useNeurolink: false
-  };
+// Per-request ranking settings shared by every ranking path
+interface RankingContext {
+  variantSelection: VariantSelection;
+  weights: RankingWeights;
+  model?: string; // ranking LLM model, when not config.llm.models.ranking
 }
 
 /**
@@ -55,14 +48,30 @@ function getRecommendationsAPIConfig(): { url: string; apiKey: string; useNeurol
  * @param shopId - Shop identifier
  * @param productIds - Array of product IDs from request
  * @param recommendationType - Type of recommendations needed
+ * @param rankingMode - llm, weighted or hybrid ranking (defaults to config.ranking.default_mode)
+ * @param options - Source variants for size/option matching, nested variants in the response, debug trace,
+ *                  experiment overrides (weights, model, candidate pool size)
+ * @returns Ranked products per type, the merchandising rules applied, and with options.debug the full trace
  */
 export async function getRecommendations(
   shopId: string,
   productIds: number[],
-  recommendationType: Array<'upsell' | 'crosssell'> = ['upsell', 'crosssell']
-): Promise<{ upsell: ScoredProduct[]; crosssell: ScoredProduct[] }> {
+  recommendationType: Array<'upsell' | 'crosssell'> = ['upsell', 'crosssell'],
+  rankingMode: RankingMode = config.ranking.default_mode,
+  options: RecommendationOptions = {}
+): Promise<RecommendationResult> {
   const client = await pool.connect();
   const startTime = Date.now();
+  const trace: RecommendationTrace = {
+    source_products: [],
+    source_tags: [],
+    related_tags: {},
+    candidates: {},
+    ranking: {},
+    timings_ms: {},
+  };
+  const withTrace = (result: RecommendationResult): RecommendationResult =>
+    (options.debug ? { ...result, trace } : result);
   
   try {
     console.log(`\n🎯 Getting recommendations for product IDs: ${productIds.join(', ')}`);
@@ -70,64 +79,126 @@ export async function getRecommendations(
     // Step 1: Query DB for products and extract their tags
     console.log('📊 STEP 1: Querying products from DB...');
     const step1Start = Date.now();
-    const sourceProducts = await getProductsByIds(client, productIds);
-    console.log(`⏱️  STEP 1 completed in ${Date.now() - step1Start}ms`);
+    const sourceProducts = await getProductsByIds(client, shopId, productIds);
+    trace.timings_ms.source_products = Date.now() - step1Start;
+    console.log(`⏱️  STEP 1 completed in ${trace.timings_ms.source_products}ms`);
     
     if (sourceProducts.length === 0) {
       throw new Error('No products found for given IDs');
     }
     
-    // Collect all tags from source products (tags is now a single string, not array)
+    // Each recommended product gets one in-stock variant, preferring the source variants' size/options
+    const variantSelection: VariantSelection = {
+      source_options: getSourceVariantOptions(sourceProducts, options.variant_ids || []),
+      include_variants: options.include_variants === true,
+    };
+    const ranking: RankingContext = {
+      variantSelection,
+      weights: { ...config.ranking.weights, ...options.weights },
+      model: options.model,
+    };
+    
+    // Collect all tags from source products
     const allSourceTags = new Set<string>();
     sourceProducts.forEach(p => {
-      if (p.tags) {
-        allSourceTags.add(p.tags);
-      }
+      (p.tags || []).forEach((tag: string) => allSourceTags.add(tag));
     });
     
     const sourceTags = Array.from(allSourceTags);
+    
+    // Merchandising rules in scope per type - exclusions and pins shape the candidates, pins and boosts the ranking
+    const rules = await loadActiveRules(client, shopId);
+    const rulePlans: Partial<Record<'upsell' | 'crosssell', RulePlan>> = {};
+    recommendationType.forEach(type => { rulePlans[type] = buildRulePlan(rules, type, sourceProducts); });
+    const appliedRules: AppliedRule[] = [];
+    trace.source_products = sourceProducts.map(p => ({ id: Number(p.id), title: p.title, tags: p.tags || [] }));
+    trace.source_tags = sourceTags;
     console.log(`🏷️  Found ${sourceTags.length} tags: ${sourceTags.slice(0, 10).join(', ')}...`);
     
-    // Step 2: Query tag_graph for related tags
+    // Step 2: Query tag_graph for related tags - upsell follows upgrade/substitute edges, crosssell complement edges
+    // Only the primary product-type tags are graph nodes; the title / vendor / price tags would pull in look-alikes
     console.log('\n🔗 STEP 2: Querying tag graph for related tags...');
     const step2Start = Date.now();
-    const relatedTags = await getRelatedTags(sourceTags, 'crosssell', 50);
-    console.log(`⏱️  STEP 2 completed in ${Date.now() - step2Start}ms`);
-    console.log(`✅ Found ${relatedTags.length} related tags: ${relatedTags.slice(0, 10).join(', ')}...`);
+    const primaryTags = getPrimaryTags(sourceProducts);
+    const relatedTagsByType = new Map<'upsell' | 'crosssell', RelatedTag[]>();
+    for (const type of recommendationType) {
+      const relatedTags = await getRelatedTags(shopId, primaryTags, type, 50, client);
+      relatedTagsByType.set(type, relatedTags);
+      trace.related_tags[type] = relatedTags;
+      console.log(`✅ Found ${relatedTags.length} ${type} tags: ${relatedTags.slice(0, 10).map(t => `${t.tag} (${t.weight})`).join(', ')}...`);
+    }
+    trace.timings_ms.related_tags = Date.now() - step2Start;
+    console.log(`⏱️  STEP 2 completed in ${trace.timings_ms.related_tags}ms`);
     
-    // Step 3: Query DB for products with related tags, get top 100 by score
-    console.log('\n📦 STEP 3: Fetching top 100 candidate products...');
+    // Step 3: Query DB for products with related tags, get the top config.limits.candidate_pool_size per recommendation type
+    const candidatePoolSize = options.candidate_pool_size ?? config.limits.candidate_pool_size;
+    console.log(`\n📦 STEP 3: Fetching top ${candidatePoolSize} candidate products per recommendation type...`);
     const step3Start = Date.now();
-    const candidateProducts = await getCandidateProductsByTags(
-      client,
-      shopId,
-      relatedTags,
-      productIds, // Exclude source products
-      100
-    );
-    console.log(`⏱️  STEP 3 completed in ${Date.now() - step3Start}ms`);
-    console.log(`✅ Found ${candidateProducts.length} candidate products`);
+    const candidatesByType = new Map<'upsell' | 'crosssell', any[]>();
+    for (const [type, relatedTags] of relatedTagsByType) {
+      const rulePlan = rulePlans[type]!;
+      const tagGraphCandidates = await getCandidateProductsByTags(
+        client,
+        shopId,
+        relatedTags,
+        productIds, // Exclude source products
+        rulePlan,
+        candidatePoolSize
+      );
+      // Products customers bought together with the source products are complements
+      const coPurchaseCandidates = type === 'crosssell'
+        ? (await getCoPurchaseCandidates(client, shopId, productIds)).filter(c => isCandidateAllowed(c, rulePlan))
+        : [];
+      appliedRules.push(...getCandidateStageRules(rulePlan));
+      const candidates = mergeCandidateChannels(tagGraphCandidates, coPurchaseCandidates)
+        .map(candidate => ({ ...candidate, reasons: explainCandidate(candidate, relatedTags) }));
+      candidatesByType.set(type, candidates);
+      if (options.debug) {
+        trace.candidates[type] = candidates.map(candidate => toCandidateTrace(sourceProducts, candidate, type, ranking.weights));
+      }
+      console.log(`✅ Found ${candidates.length} ${type} candidates (${tagGraphCandidates.length} tag graph, ${coPurchaseCandidates.length} co-purchase)`);
+    }
+    trace.timings_ms.candidates = Date.now() - step3Start;
+    console.log(`⏱️  STEP 3 completed in ${trace.timings_ms.candidates}ms`);
     
-    if (candidateProducts.length === 0) {
+    if (Array.from(candidatesByType.values()).every(candidates => candidates.length === 0)) {
       console.log('⚠️  No candidates found, returning empty results');
-      return { upsell: [], crosssell: [] };
+      recommendationType.forEach(type => { trace.ranking[type] = { path: 'no_candidates' }; });
+      trace.timings_ms.total = Date.now() - startTime;
+      return withTrace({ upsell: [], crosssell: [], applied_rules: appliedRules });
     }
     
-    // Step 4: Use LLM to find nearest embeddings (most matching products)
-    console.log('\n🤖 STEP 4: Using LLM to find nearest embeddings...');
+    // Step 4: Rank each type's candidates (LLM, weighted scorer, or LLM shortlist ordered by weighted score)
     const step4Start = Date.now();
-    const rankedProducts = await findNearestProductsWithLLM(
-      sourceProducts,
-      candidateProducts,
-      recommendationType
-    );
-    console.log(`⏱️  STEP 4 completed in ${Date.now() - step4Start}ms`);
+    const rankedProducts: { upsell: ScoredProduct[]; crosssell: ScoredProduct[] } = { upsell: [], crosssell: [] };
+    if (rankingMode === 'weighted') {
+      console.log('\n📐 STEP 4: Ranking candidates with weighted scorer...');
+    } else {
+      console.log(`\n🤖 STEP 4: Using LLM to find nearest embeddings (${rankingMode} mode)...`);
+    }
+    await Promise.all(Array.from(candidatesByType).map(async ([type, candidates]) => {
+      if (candidates.length === 0) {
+        trace.ranking[type] = { path: 'no_candidates' };
+        return;
+      }
+      const rankingTrace: RankingTrace = { path: rankingMode };
+      trace.ranking[type] = rankingTrace;
+      const typeRulePlans = { [type]: rulePlans[type] };
+      const ranked = rankingMode === 'weighted'
+        ? finalizeRanking(rankCandidatesWeighted(sourceProducts, candidates, [type], variantSelection, ranking.weights), sourceProducts, candidates, typeRulePlans, ranking, true, rankingTrace)
+        : await findNearestProductsWithLLM(sourceProducts, candidates, [type], rankingMode, ranking, rankingTrace, typeRulePlans);
+      rankedProducts[type] = ranked[type];
+      appliedRules.push(...(ranked.applied_rules || []));
+    }));
+    trace.timings_ms.ranking = Date.now() - step4Start;
+    console.log(`⏱️  STEP 4 completed in ${trace.timings_ms.ranking}ms`);
     
     const totalRanked = rankedProducts.upsell.length + rankedProducts.crosssell.length;
-    console.log(`✅ LLM ranked ${totalRanked} products (${rankedProducts.upsell.length} upsell, ${rankedProducts.crosssell.length} crosssell)`);
-    console.log(`\n⏱️  TOTAL TIME: ${Date.now() - startTime}ms\n`);
+    console.log(`✅ Ranked ${totalRanked} products (${rankedProducts.upsell.length} upsell, ${rankedProducts.crosssell.length} crosssell)`);
+    trace.timings_ms.total = Date.now() - startTime;
+    console.log(`\n⏱️  TOTAL TIME: ${trace.timings_ms.total}ms\n`);
 
-    return rankedProducts;
+    return withTrace({ ...rankedProducts, applied_rules: appliedRules });
   } catch (error) {
     console.error('❌ Error generating recommendations:', error);
     throw error;
@@ -136,86 +207,237 @@ export async function getRecommendations(
   }
 }
 
-// Step 1: Get products by IDs from database
-async function getProductsByIds(client: any, productIds: number[]): Promise<any[]> {
+// Step 1: Get products by IDs from database (scoped to the shop)
+async function getProductsByIds(client: any, shopId: string, productIds: number[]): Promise<any[]> {
   const result = await client.query(
-    `SELECT id, title, category, price, vendor, tags, embedding
+    `SELECT id, title, category, price, vendor, variants, tags, embedding, embedding_version
      FROM products
-     WHERE id = ANY($1::bigint[])`,
-    [productIds]
+     WHERE shop_id = $1 AND id = ANY($2::bigint[])`,
+    [shopId, productIds]
   );
   
   return result.rows;
 }
 
-// Step 3: Get candidate products by related tags, sorted by score
+// Option values of the requested source variants (variant ids not on a source product are ignored)
+function getSourceVariantOptions(sourceProducts: any[], variantIds: number[]): string[] {
+  const options = new Set<string>();
+  for (const product of sourceProducts) {
+    for (const variant of product.variants || []) {
+      if (variantIds.includes(Number(variant.id))) {
+        getVariantOptions(variant.title).forEach(o => options.add(o));
+      }
+    }
+  }
+  return Array.from(options);
+}
+
+// Step 3: Get candidate products sharing related tags, ranked by how many they share,
+// then by the summed edge weight of the shared tags, then by score
+// Merchandising exclusions are filtered out; pinned products are always candidates (and come first)
 async function getCandidateProductsByTags(
   client: any,
   shopId: string,
-  tags: string[],
+  relatedTags: RelatedTag[],
   excludeIds: number[],
-  limit: number = 100
+  rulePlan: RulePlan,
+  limit: number = config.limits.candidate_pool_size
 ): Promise<any[]> {
-  console.log(`🔍 DEBUG: Querying with tags:`, tags);
-  console.log(`🔍 DEBUG: Exclude IDs:`, excludeIds);
-  console.log(`🔍 DEBUG: Parameters:`, { shopId, excludeIds, tags, limit });
+  const tags = relatedTags.map(t => t.tag);
+  const weights = relatedTags.map(t => t.weight);
   
-  // Query products that have matching tags
-  // Sort by merchant_score (highest stock/availability gets priority)
+  // Query products that have at least one matching tag (&& uses the GIN index on tags)
+  // merchant_score / purchase_score break ties (highest stock/availability gets priority)
   const query = `SELECT 
-      id, title, category, price, vendor, variants, tags,
-      merchant_score, purchase_score, embedding, stock
-     FROM products
-     WHERE shop_id = $1
-       AND id != ALL($2::bigint[])
-       AND status = 'active'
-       AND stock > 0
-       AND tags = ANY($3::text[])
-     ORDER BY (merchant_score * 0.6 + purchase_score * 0.4) DESC
-     LIMIT $4`;
-  
-  console.log(`🔍 DEBUG: SQL Query:`, query);
-  console.log(`🔍 DEBUG: Query params:`, [shopId, excludeIds, tags, limit]);
-  
-  const result = await client.query(query, [shopId, excludeIds, tags, limit]);
-  
-  console.log(`🔍 DEBUG: Found ${result.rows.length} products`);
-  if (result.rows.length > 0) {
-    console.log(`🔍 DEBUG: First product:`, result.rows[0].id, result.rows[0].title, result.rows[0].tags);
-  }
+      p.id, p.title, p.category, p.price, p.vendor, p.variants, p.tags,
+      p.merchant_score, p.purchase_score, p.embedding, p.embedding_version, p.stock,
+      matched.tag_overlap, matched.tag_weight, matched.matched_tags
+     FROM products p
+     CROSS JOIN LATERAL (
+       SELECT COUNT(*)::int AS tag_overlap, COALESCE(SUM(related.weight), 0) AS tag_weight,
+              array_agg(related.tag ORDER BY related.weight DESC) AS matched_tags
+       FROM UNNEST($3::text[], $4::float[]) AS related(tag, weight)
+       WHERE related.tag = ANY(p.tags)
+     ) matched
+     WHERE p.shop_id = $1
+       AND p.id != ALL($2::bigint[])
+       AND p.status = 'active'
+       AND p.stock > 0
+       AND (p.tags && $3::text[] OR p.id = ANY($9::bigint[]))
+       AND p.id != ALL($6::bigint[])
+       AND LOWER(COALESCE(p.vendor, '')) != ALL($7::text[])
+       AND LOWER(COALESCE(p.category, '')) != ALL($8::text[])
+     ORDER BY p.id = ANY($9::bigint[]) DESC, matched.tag_overlap DESC, matched.tag_weight DESC, (p.merchant_score * 0.6 + p.purchase_score * 0.4) DESC
+     LIMIT $5`;
+  const params = [
+    shopId, excludeIds, tags, weights, limit,
+    rulePlan.excluded_product_ids, rulePlan.excluded_vendors, rulePlan.excluded_categories, rulePlan.pinned_product_ids,
+  ];
   
+  const result = await client.query(query, params);
   return result.rows;
 }
 
+// Why a candidate was found: its strongest tag graph edges and co-purchase count
+function explainCandidate(candidate: any, relatedTags: RelatedTag[]): string[] {
+  const reasons: string[] = [];
+  for (const tag of (candidate.matched_tags || []).slice(0, 3)) {
+    const edge = relatedTags.find(t => t.tag === tag);
+    if (!edge) continue;
+    reasons.push(edge.source_tag === edge.tag
+      ? `shares tag ${edge.tag}`
+      : `shares tag graph edge ${edge.source_tag}→${edge.tag} (${edge.relation}, ${edge.weight})`);
+  }
+  if (candidate.co_purchase_count > 0) {
+    reasons.push(`co-purchased ${candidate.co_purchase_count} times`);
+  }
+  return reasons;
+}
+
+// A candidate with the weighted score it would get and its price band verdict, for the debug trace
+function toCandidateTrace(
+  sourceProducts: any[],
+  candidate: any,
+  type: 'upsell' | 'crosssell',
+  weights: RankingWeights
+): CandidateTrace {
+  return {
+    id: Number(candidate.id),
+    title: candidate.title,
+    category: candidate.category,
+    price: Number(candidate.price),
+    channels: candidate.channels,
+    tag_overlap: candidate.tag_overlap || 0,
+    tag_weight: Number(candidate.tag_weight) || 0,
+    co_purchase_count: candidate.co_purchase_count || 0,
+    price_band_violation: checkPriceBand(sourceProducts, candidate, Number(candidate.price), type),
+    ...scoreCandidate(sourceProducts, candidate, candidate.price, type, weights),
+    reasons: candidate.reasons,
+  };
+}
+
+// After ranking: diversity re-ranking down to the final list, then merchandising rules
+// (pins first, boosts / buries applied, re-sorted when ordered by score)
+function finalizeRanking(
+  ranked: { upsell: ScoredProduct[]; crosssell: ScoredProduct[] },
+  sourceProducts: any[],
+  candidates: any[],
+  rulePlans: Partial<Record<'upsell' | 'crosssell', RulePlan>>,
+  ranking: RankingContext,
+  sortByScore: boolean,
+  rankingTrace?: RankingTrace
+): RecommendationResult {
+  const result: RecommendationResult = { ...ranked, applied_rules: [] };
+  for (const [type, rulePlan] of Object.entries(rulePlans) as Array<['upsell' | 'crosssell', RulePlan]>) {
+    const diversified = diversifyRecommendations(ranked[type], candidates, sortByScore);
+    if (rankingTrace && diversified.skipped.length > 0) {
+      rankingTrace.diversity_skipped = diversified.skipped;
+    }
+    
+    const { products, applied } = applyRankingRules(
+      diversified.products,
+      candidates,
+      rulePlan,
+      candidate => toScoredProduct(sourceProducts, candidate, ranking.variantSelection, type, ranking.weights),
+      sortByScore
+    );
+    result[type] = products;
+    result.applied_rules!.push(...applied);
+  }
+  return result;
+}
+
+// Recommendation type instructions, with the configured price bands (also enforced on the LLM's picks)
+function getRecommendationTypePrompt(type: 'upsell' | 'crosssell', sourceProducts: any[]): string {
+  const { upsell, crosssell } = config.pricing;
+  if (type === 'upsell') {
+    return `Upsell: ${upsell.same_category ? 'Same category' : 'Same/similar category'}, priced ${upsell.min_ratio}x-${upsell.max_ratio}x the viewed product, never cheaper (up to ${config.diversity.pool_size} products)`;
+  }
+  const ceiling = getCartValue(sourceProducts) * crosssell.max_cart_ratio;
+  return `Crosssell: Complementary products, different category, priced at most $${ceiling.toFixed(2)} (up to ${config.diversity.pool_size} products)`;
+}
+
+// Ranking reply: an id list per requested type; ids not in the candidate list are dropped, and a list
+// with no candidate ids at all is asked for again
+function rankingSchema(
+  types: Array<'upsell' | 'crosssell'>,
+  candidateIds: Set<number>,
+  request: LLMRequest
+): LLMSchema<number[]> {
+  return {
+    shape: 'object',
+    keys: types,
+    validate(parsed: any) {
+      const items = new Map<string, number[]>();
+      const errors: string[] = [];
+      for (const type of types) {
+        const ids = parsed?.[type];
+        if (!Array.isArray(ids)) {
+          errors.push(`"${type}" must be an array of product ID numbers`);
+          continue;
+        }
+        const valid = Array.from(new Set(ids.map(Number).filter(id => candidateIds.has(id))));
+        const unknown = ids.filter(id => !candidateIds.has(Number(id)));
+        if (unknown.length > 0) {
+          errors.push(`"${type}": ${unknown.slice(0, 10).map(id => JSON.stringify(id)).join(', ')} not in the candidate list`);
+        }
+        if (ids.length > 0 && valid.length === 0) continue;
+        items.set(type, valid);
+      }
+      return { items, errors };
+    },
+    repair(keys, errors) {
+      return {
+        ...request,
+        prompt: `${request.prompt}\n\nYour previous answer was invalid:\n${errors.join('\n')}\n\n` +
+          `Return ONLY valid JSON with ${keys.map(key => `"${key}"`).join(' and ')}, using ONLY ID numbers from the list above.`,
+      };
+    },
+  };
+}
+
 // Step 4: Use LLM to find nearest embeddings and rank products
+// In hybrid mode the LLM selection is re-ordered by the weighted score
+// The prompt, raw response and fallback path are recorded on rankingTrace
+// Merchandising rules are applied to the LLM selection and to the fallback ranking alike
+// Only the LLM call and its reply fall back to weighted ranking - errors in the later stages are thrown
 async function findNearestProductsWithLLM(
   sourceProducts: any[],
   candidates: any[],
-  recommendationType: Array<'upsell' | 'crosssell'>
-): Promise<{ upsell: ScoredProduct[]; crosssell: ScoredProduct[] }> {
+  recommendationType: Array<'upsell' | 'crosssell'>,
+  rankingMode: RankingMode,
+  ranking: RankingContext,
+  rankingTrace: RankingTrace = { path: rankingMode },
+  rulePlans: Partial<Record<'upsell' | 'crosssell', RulePlan>> = {}
+): Promise<RecommendationResult> {
+  // Prepare candidate list with embeddings
+  const candidateList = candidates.map((p, idx) => ({
+    index: idx,
+    id: p.id,
+    title: p.title,
+    category: p.category,
+    price: p.price,
+    vendor: p.vendor,
+    variants: p.variants, // Already parsed from JSONB
+    embedding: p.embedding,
+    merchant_score: p.merchant_score || 0,
+    purchase_score: p.purchase_score || 0,
+    co_purchase_count: p.co_purchase_count || 0,
+    channels: p.channels,
+    reasons: p.reasons || []
+  }));
+  
+  let result: Awaited<ReturnType<typeof completeWithSchema<number[]>>>;
   try {
     // Prepare source products info
     const sourceInfo = sourceProducts.map(p => 
       `${p.title} (${p.category || 'N/A'}) - $${p.price}`
     ).join(', ');
     
-    // Prepare candidate list with embeddings
-    const candidateList = candidates.map((p, idx) => ({
-      index: idx,
-      id: p.id,
-      title: p.title,
-      category: p.category,
-      price: p.price,
-      vendor: p.vendor,
-      variants: p.variants, // Already parsed from JSONB
-      embedding: p.embedding,
-      merchant_score: p.merchant_score || 0,
-      purchase_score: p.purchase_score || 0
-    }));
-    
     // Build prompt for LLM
     const candidateText = candidateList.map((p) => 
-      `ID: ${p.id} - ${p.title} (${p.category}) - $${p.price} by ${p.vendor}`
+      `ID: ${p.id} - ${p.title} (${p.category}) - $${p.price} by ${p.vendor}` +
+      (p.co_purchase_count > 0 ? ` - bought together ${p.co_purchase_count} times` : '')
     ).join('\n');
     
     const prompt = `You are an e-commerce recommendation expert. A customer is viewing these products:
@@ -227,196 +449,133 @@ ${candidateText}
 
 Analyze based on:
 1. Embedding similarity (semantic matching)
-2. Complementary fit (what goes well together)
+2. Complementary fit (what goes well together, especially products bought together)
 3. Price appropriateness
 4. Category relevance
 
 For each recommendation type, select the best product ID NUMBERS:
-- Upsell: Same/similar category, higher value (up to 10 products)
-- Crosssell: Complementary products, different category (up to 10 products)
+${recommendationType.map(type => `- ${getRecommendationTypePrompt(type, sourceProducts)}`).join('\n')}
 
 IMPORTANT: Return NUMERIC IDs only (e.g., 1001, 1002), NOT category names or strings.
 
 Return ONLY valid JSON with numeric arrays:
 {
-  "upsell": [1001, 1002],
-  "crosssell": [1003, 1004]
+${recommendationType.map((type, i) => `  "${type}": [${1001 + i * 2}, ${1002 + i * 2}]`).join(',\n')}
 }`;
 
-    const apiConfig = getRecommendationsAPIConfig();
-    
-    let llmResponse: string;
-    
-    // Use Neurolink or API-based LLM
-    if (apiConfig.useNeurolink) {
-      // Neurolink call
-      const neurolink = new NeuroLink();
-      const result = await neurolink.generate({
-        input: { text: prompt },
-        disableTools: true,
-        maxTokens: 1200
-      });
-      llmResponse = result.content;
-    } else {
-      // API-based LLM call
-      const response = await fetch(apiConfig.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiConfig.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gemini-2.5-flash-lite',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a product recommendation expert. Return only valid JSON with product IDs.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 1000
-        })
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        console.error(`❌ API Error (${response.status}):`, errorBody);
-        throw new Error(`API error: ${response.status} - ${errorBody}`);
-      }
-
-      const data = await response.json();
-      console.log('🔍 DEBUG: API response:', JSON.stringify(data, null, 2));
-      
-      llmResponse = data.choices?.[0]?.message?.content || '{}';
-    }
-    
-    console.log('🔍 DEBUG: LLM response content:', llmResponse);
-    console.log('🔍 DEBUG: LLM response type:', typeof llmResponse);
-    
-    // Parse LLM response - strip markdown if present
-    let jsonText = typeof llmResponse === 'string' ? llmResponse : JSON.stringify(llmResponse);
-    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '').trim();
+    const system = 'You are a product recommendation expert. Return only valid JSON with product IDs.';
+    rankingTrace.llm_provider = getLLMProviderName('ranking');
+    rankingTrace.llm_system = system;
+    rankingTrace.llm_prompt = prompt;
     
-    const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('❌ No JSON found in response:', jsonText);
-      throw new Error('Failed to parse LLM response - no JSON found');
-    }
-    
-    console.log('🔍 DEBUG: Extracted JSON:', jsonMatch[0]);
-    const recommendations: { upsell: number[]; crosssell: number[] } = JSON.parse(jsonMatch[0]);
-    
-    console.log('🔍 DEBUG: Recommendations from LLM:', recommendations);
-    console.log('🔍 DEBUG: Candidate IDs available:', candidateList.map(c => c.id));
+    console.log(`🔑 Using ${rankingTrace.llm_provider} for recommendations`);
+    const request: LLMRequest = {
+      stage: 'ranking',
+      model: ranking.model,
+      system,
+      prompt,
+      temperature: 0.3,
+      maxTokens: 1000,
+      data: {
+        sourceProducts: sourceProducts.map(p => ({ id: p.id, category: p.category, price: p.price })),
+        candidates: candidateList.map(c => ({ id: c.id, category: c.category, price: c.price })),
+      },
+    };
+    const llmOutput = emptyLLMOutputStats();
+    const candidateIds = new Set(candidateList.map(c => Number(c.id)));
+    result = await completeWithSchema(request, rankingSchema(recommendationType, candidateIds, request), llmOutput);
     
-    // Convert IDs to scored products
-    const upsell: ScoredProduct[] = [];
-    const crosssell: ScoredProduct[] = [];
+    const [firstReply, ...repairReplies] = result.replies;
+    rankingTrace.llm_response = firstReply;
+    if (repairReplies.length > 0) rankingTrace.llm_repair_responses = repairReplies;
+    if (result.errors.length > 0) rankingTrace.llm_errors = result.errors;
+    rankingTrace.llm_output = llmOutput;
     
-    for (const productId of recommendations.upsell || []) {
-      console.log(`🔍 DEBUG: Looking for upsell product ID ${productId}`);
-      // Convert both to numbers for comparison (pg returns bigint as string)
-      const candidate = candidateList.find(c => Number(c.id) === Number(productId));
-      if (candidate) {
-        console.log(`✅ Found upsell product: ${candidate.title}`);
-        // For each variant
-        for (const variant of candidate.variants) {
-          upsell.push({
-            id: candidate.id,
-            title: candidate.title,
-            variant_id: variant.id,
-            variant_title: variant.title,
-            category: candidate.category,
-            price: variant.price,
-            vendor: candidate.vendor,
-            score: 0.9, // High score from LLM recommendation
-            embedding_similarity: 0.85,
-            merchant_score: candidate.merchant_score,
-            purchase_score: candidate.purchase_score,
-            price_similarity: 0.8
-          });
-        }
-      }
+    if (result.items.size === 0) {
+      throw new Error(`No valid recommendation lists in LLM response${result.errors.length > 0 ? `: ${result.errors.slice(0, 3).join('; ')}` : ''}`);
     }
-    
-    for (const productId of recommendations.crosssell || []) {
-      console.log(`🔍 DEBUG: Looking for crosssell product ID ${productId}`);
-      // Convert both to numbers for comparison (pg returns bigint as string)
-      const candidate = candidateList.find(c => Number(c.id) === Number(productId));
-      if (candidate) {
-        console.log(`✅ Found crosssell product: ${candidate.title}`);
-        // For each variant
-        for (const variant of candidate.variants) {
-          crosssell.push({
-            id: candidate.id,
-            title: candidate.title,
-            variant_id: variant.id,
-            variant_title: variant.title,
-            category: candidate.category,
-            price: variant.price,
-            vendor: candidate.vendor,
-            score: 0.85,
-            embedding_similarity: 0.8,
-            merchant_score: candidate.merchant_score,
-            purchase_score: candidate.purchase_score,
-            price_similarity: 0.75
-          });
-        }
-      }
-    }
-    
-    return {
-      upsell: upsell.slice(0, config.limits.final_recommendations),
-      crosssell: crosssell.slice(0, config.limits.final_recommendations)
-    };
-    
   } catch (error: any) {
     console.error('❌ LLM recommendation failed:', error.message);
     console.log('⚠️  Falling back to simple scoring...');
     
-    // Fallback: Use simple merchant score ranking
-    const upsell: ScoredProduct[] = [];
-    const crosssell: ScoredProduct[] = [];
+    rankingTrace.path = 'weighted_fallback';
+    rankingTrace.error = error.message;
     
-    for (const candidate of candidates.slice(0, 20)) {
-      const variants = candidate.variants; // Already parsed from JSONB
-      const avgPrice = sourceProducts.reduce((sum, p) => sum + p.price, 0) / sourceProducts.length;
-      
-      for (const variant of variants) {
-        const scored: ScoredProduct = {
-          id: candidate.id,
-          title: candidate.title,
-          variant_id: variant.id,
-          variant_title: variant.title,
-          category: candidate.category,
-          price: variant.price,
-          vendor: candidate.vendor,
-          score: candidate.merchant_score || 0.5,
-          embedding_similarity: 0.7,
-          merchant_score: candidate.merchant_score || 0.5,
-          purchase_score: candidate.purchase_score || 0.5,
-          price_similarity: 0.6
-        };
-        
-        // Simple categorization
-        const isSameCategory = sourceProducts.some(p => p.category === candidate.category);
-        const isHigherPrice = variant.price >= avgPrice;
-        
-        if (isSameCategory && isHigherPrice) {
-          upsell.push(scored);
-        } else {
-          crosssell.push(scored);
-        }
+    // Fallback: Use the weighted scorer over the same candidates
+    const fallback = rankCandidatesWeighted(sourceProducts, candidates, recommendationType, ranking.variantSelection, ranking.weights);
+    for (const scored of [...fallback.upsell, ...fallback.crosssell]) {
+      scored.reasons.push(`weighted fallback (LLM failed: ${error.message})`);
+    }
+    return finalizeRanking(fallback, sourceProducts, candidates, rulePlans, ranking, true, rankingTrace);
+  }
+  
+  // Convert IDs to scored products - picks outside the price band are dropped
+  const upsell: ScoredProduct[] = [];
+  const crosssell: ScoredProduct[] = [];
+  const rejectPick = (type: 'upsell' | 'crosssell', candidate: any, reason: string) => {
+    console.log(`⚠️  Dropped LLM ${type} pick ${candidate.id} (${candidate.title}): ${reason}`);
+    (rankingTrace.price_band_rejections ||= []).push({ id: Number(candidate.id), reason });
+  };
+  
+  for (const productId of result.items.get('upsell') || []) {
+    const candidate = candidateList.find(c => Number(c.id) === productId);
+    if (candidate && !upsell.some(p => Number(p.id) === Number(candidate.id))) {
+      console.log(`✅ Found upsell product: ${candidate.title}`);
+      // Selected in-stock variant, scored against the source products
+      const scored = toScoredProduct(sourceProducts, candidate, ranking.variantSelection, 'upsell', ranking.weights);
+      const violation = scored && checkPriceBand(sourceProducts, candidate, scored.price, 'upsell');
+      if (violation) rejectPick('upsell', candidate, violation);
+      else if (scored) upsell.push(scored);
+    }
+  }
+  
+  for (const productId of result.items.get('crosssell') || []) {
+    const candidate = candidateList.find(c => Number(c.id) === productId);
+    if (candidate && !crosssell.some(p => Number(p.id) === Number(candidate.id))) {
+      console.log(`✅ Found crosssell product: ${candidate.title}`);
+      // Selected in-stock variant, scored against the source products
+      const scored = toScoredProduct(sourceProducts, candidate, ranking.variantSelection, 'crosssell', ranking.weights);
+      const violation = scored && checkPriceBand(sourceProducts, candidate, scored.price, 'crosssell');
+      if (violation) rejectPick('crosssell', candidate, violation);
+      else if (scored) crosssell.push(scored);
+    }
+  }
+  
+  for (const list of [upsell, crosssell]) {
+    list.forEach((scored, i) => {
+      scored.reasons.push(rankingMode === 'hybrid'
+        ? `LLM shortlisted, ordered by weighted score ${scored.score}`
+        : `LLM selected (#${i + 1})`);
+    });
+  }
+  
+  // A list the LLM got wrong even after the repair request is ranked by the weighted scorer
+  if (result.missing.length > 0) {
+    const missingTypes = result.missing as Array<'upsell' | 'crosssell'>;
+    const fallback = rankCandidatesWeighted(sourceProducts, candidates, missingTypes, ranking.variantSelection, ranking.weights);
+    for (const type of missingTypes) {
+      const list = type === 'upsell' ? upsell : crosssell;
+      for (const scored of fallback[type]) {
+        scored.reasons.push(`weighted fallback (no valid LLM ${type} list)`);
+        list.push(scored);
       }
     }
-    
-    return {
-      upsell: upsell.slice(0, config.limits.final_recommendations),
-      crosssell: crosssell.slice(0, config.limits.final_recommendations)
-    };
+    rankingTrace.error = `No valid LLM ${missingTypes.join(' / ')} list - ranked by weighted score`;
+  }
+  
+  if (rankingMode === 'hybrid') {
+    // Stable sort keeps the LLM order for ties
+    upsell.sort((a, b) => b.score - a.score);
+    crosssell.sort((a, b) => b.score - a.score);
   }
+  
+  return finalizeRanking(
+    { upsell, crosssell },
+    sourceProducts,
+    candidates,
+    rulePlans,
+    ranking,
+    rankingMode === 'hybrid',
+    rankingTrace
+  );
 }
\ No newline at end of file
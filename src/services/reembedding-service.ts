@@ -0,0 +1,77 @@
+import { pool } from '../database/db.js';
+import { buildEmbeddingText } from './embedding-service.js';
+import { embedWithFallback, getEmbeddingVersion } from './embedding-provider.js';
+
+let isRunning = false;
+
+/**
+ * Re-embed every product whose embedding_version differs from the configured provider's (see getEmbeddingVersion)
+ * The text is built from the shop's stored catalog product (the one precompute embedded), so a vector
+ * means the same thing whichever path wrote it; products with no catalog row use their products row.
+ * Batches go through embedWithFallback like precompute: while the primary provider is failing (or its circuit
+ * is open) a batch gets fallback vectors under the fallback's version and the pass stops there - the next
+ * pass (server start, precompute with fallback batches) picks those products up again.
+ * @param batchSize - Products embedded per provider call
+ * @returns Number of products re-embedded
+ */
+export async function reembedStaleProducts(batchSize: number = 100): Promise<number> {
+  const version = getEmbeddingVersion();
+  let total = 0;
+
+  while (true) {
+    const result = await pool.query(
+      `SELECT p.id, p.shop_id, p.description,
+              COALESCE(c.data, jsonb_build_object(
+                'id', p.id, 'title', p.title, 'category', p.category, 'vendor', p.vendor, 'price', p.price, 'tags', p.tags
+              )) AS product
+       FROM products p
+       LEFT JOIN catalog_products c ON c.shop_id = p.shop_id AND c.id = p.id
+       WHERE p.embedding_version IS DISTINCT FROM $1
+       ORDER BY p.shop_id, p.id
+       LIMIT $2`,
+      [version, batchSize]
+    );
+
+    if (result.rows.length === 0) break;
+
+    const texts = result.rows.map((row: any) => buildEmbeddingText(row.product, row.description));
+    const embedded = await embedWithFallback(texts);
+
+    for (let i = 0; i < result.rows.length; i++) {
+      await pool.query(
+        `UPDATE products
+         SET embedding = $1, embedding_version = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE shop_id = $3 AND id = $4`,
+        [embedded.embeddings[i], embedded.version, result.rows[i].shop_id, result.rows[i].id]
+      );
+    }
+
+    total += result.rows.length;
+    if (embedded.version !== version) {
+      console.warn(`⚠️  Re-embedded ${result.rows.length} products with fallback ${embedded.provider} (${embedded.version}) - stopping until ${version} is available again`);
+      break;
+    }
+    console.log(`🧮 Re-embedded ${total} products to embedding version ${version}`);
+  }
+
+  return total;
+}
+
+// Kick off re-embedding in the background (no-op if a run is already in progress)
+export function startBackgroundReembedding(): void {
+  if (isRunning) return;
+  isRunning = true;
+
+  reembedStaleProducts()
+    .then(count => {
+      if (count > 0) {
+        console.log(`✅ Background re-embedding complete: ${count} products on ${getEmbeddingVersion()}`);
+      }
+    })
+    .catch(err => {
+      console.error('❌ Background re-embedding failed:', err.message);
+    })
+    .finally(() => {
+      isRunning = false;
+    });
+}
@@ -0,0 +1,382 @@
+import { pool } from '../database/db.js';
+import type {
+  AppliedRule,
+  MerchandisingRule,
+  MerchandisingRuleType,
+  RuleTargetType,
+  ScoredProduct,
+} from '../types/index.js';
+import { config } from '../config.js';
+import { invalidateShopCache } from './cache-service.js';
+
+type RecommendationType = 'upsell' | 'crosssell';
+
+// Target types each rule kind accepts
+export const RULE_TARGETS: Record<MerchandisingRuleType, RuleTargetType[]> = {
+  pin: ['product'],
+  exclude: ['product', 'vendor', 'category'],
+  boost: ['tag', 'vendor'],
+  bury: ['tag', 'vendor'],
+  never_crosssell: ['category'],
+};
+
+const RULE_TYPES = Object.keys(RULE_TARGETS) as MerchandisingRuleType[];
+
+// The request body is not a valid rule
+export class RuleValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid rule: ${errors.join('; ')}`);
+    this.name = 'RuleValidationError';
+    this.errors = errors;
+  }
+}
+
+type RuleInput = Omit<MerchandisingRule, 'id' | 'shop_id' | 'created_at' | 'updated_at'>;
+
+// Validate and normalise a rule body (create, or an update merged onto the stored rule)
+function validateRule(body: any): { rule: RuleInput | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!RULE_TYPES.includes(body.rule_type)) {
+    errors.push(`rule_type must be one of: ${RULE_TYPES.join(', ')}`);
+    return { rule: null, errors };
+  }
+  const ruleType: MerchandisingRuleType = body.rule_type;
+
+  const allowedTargets = RULE_TARGETS[ruleType];
+  const targetType = body.target_type ?? (allowedTargets.length === 1 ? allowedTargets[0] : undefined);
+  if (!allowedTargets.includes(targetType)) {
+    errors.push(`target_type of a ${ruleType} rule must be one of: ${allowedTargets.join(', ')}`);
+  }
+
+  const targetValues: string[] = Array.isArray(body.target_values)
+    ? body.target_values.map((v: any) => String(v).trim()).filter((v: string) => v.length > 0)
+    : [];
+  if (targetValues.length === 0) {
+    errors.push('target_values must be a non-empty array');
+  }
+  if (targetType === 'product' && targetValues.some(v => !/^\d+$/.test(v))) {
+    errors.push('target_values of a product rule must be product ids');
+  }
+
+  let recommendationType = body.recommendation_type ?? null;
+  if (recommendationType !== null && recommendationType !== 'upsell' && recommendationType !== 'crosssell') {
+    errors.push('recommendation_type must be upsell, crosssell or null (both)');
+  }
+  if (ruleType === 'never_crosssell') {
+    if (recommendationType === 'upsell') {
+      errors.push('a never_crosssell rule only applies to crosssell');
+    }
+    recommendationType = 'crosssell';
+  }
+
+  const sourceProductId = body.source_product_id ?? null;
+  if (sourceProductId !== null && (ruleType !== 'pin' || !Number.isInteger(Number(sourceProductId)))) {
+    errors.push('source_product_id is only allowed on pin rules and must be a product id');
+  }
+
+  const sourceCategory = body.source_category ?? null;
+  if (sourceCategory !== null && (typeof sourceCategory !== 'string' || !['pin', 'never_crosssell'].includes(ruleType))) {
+    errors.push('source_category is only allowed on pin and never_crosssell rules and must be a string');
+  }
+  if (ruleType === 'never_crosssell' && !sourceCategory) {
+    errors.push('a never_crosssell rule needs a source_category');
+  }
+
+  const weight = body.weight ?? config.rules.default_weight;
+  if (typeof weight !== 'number' || weight <= 0 || weight > 1) {
+    errors.push('weight must be a number in (0, 1]');
+  }
+
+  const active = body.active ?? true;
+  if (typeof active !== 'boolean') {
+    errors.push('active must be a boolean');
+  }
+
+  const description = body.description ?? null;
+  if (description !== null && typeof description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { rule: null, errors };
+  }
+
+  return {
+    rule: {
+      rule_type: ruleType,
+      recommendation_type: recommendationType,
+      source_product_id: sourceProductId === null ? null : Number(sourceProductId),
+      source_category: sourceCategory,
+      target_type: targetType,
+      target_values: targetValues,
+      weight,
+      active,
+      description,
+    },
+    errors,
+  };
+}
+
+// pg returns BIGINT as string
+function toRule(row: any): MerchandisingRule {
+  return {
+    ...row,
+    source_product_id: row.source_product_id === null ? null : Number(row.source_product_id),
+  };
+}
+
+export async function listRules(shopId: string): Promise<MerchandisingRule[]> {
+  const result = await pool.query('SELECT * FROM merchandising_rules WHERE shop_id = $1 ORDER BY id', [shopId]);
+  return result.rows.map(toRule);
+}
+
+export async function getRule(shopId: string, ruleId: number): Promise<MerchandisingRule | null> {
+  const result = await pool.query('SELECT * FROM merchandising_rules WHERE shop_id = $1 AND id = $2', [shopId, ruleId]);
+  return result.rows.length > 0 ? toRule(result.rows[0]) : null;
+}
+
+export async function createRule(shopId: string, body: any): Promise<MerchandisingRule> {
+  const { rule, errors } = validateRule(body || {});
+  if (!rule) {
+    throw new RuleValidationError(errors);
+  }
+
+  const result = await pool.query(
+    `INSERT INTO merchandising_rules (
+       shop_id, rule_type, recommendation_type, source_product_id, source_category,
+       target_type, target_values, weight, active, description
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING *`,
+    [
+      shopId, rule.rule_type, rule.recommendation_type, rule.source_product_id, rule.source_category,
+      rule.target_type, rule.target_values, rule.weight, rule.active, rule.description,
+    ]
+  );
+
+  await onRulesChanged(shopId);
+  return toRule(result.rows[0]);
+}
+
+/**
+ * Update a rule - fields missing from the body keep their stored value
+ * @returns The updated rule, or null when it doesn't exist
+ */
+export async function updateRule(shopId: string, ruleId: number, body: any): Promise<MerchandisingRule | null> {
+  const existing = await getRule(shopId, ruleId);
+  if (!existing) return null;
+
+  const { rule, errors } = validateRule({ ...existing, ...(body || {}) });
+  if (!rule) {
+    throw new RuleValidationError(errors);
+  }
+
+  const result = await pool.query(
+    `UPDATE merchandising_rules SET
+       rule_type = $3, recommendation_type = $4, source_product_id = $5, source_category = $6,
+       target_type = $7, target_values = $8, weight = $9, active = $10, description = $11,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE shop_id = $1 AND id = $2
+     RETURNING *`,
+    [
+      shopId, ruleId, rule.rule_type, rule.recommendation_type, rule.source_product_id, rule.source_category,
+      rule.target_type, rule.target_values, rule.weight, rule.active, rule.description,
+    ]
+  );
+
+  await onRulesChanged(shopId);
+  return toRule(result.rows[0]);
+}
+
+export async function deleteRule(shopId: string, ruleId: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM merchandising_rules WHERE shop_id = $1 AND id = $2', [shopId, ruleId]);
+  if (!result.rowCount) return false;
+
+  await onRulesChanged(shopId);
+  return true;
+}
+
+// Rule changes take effect on the next request: stored lists were ranked under the old rules,
+// so they are dropped (live ranking serves until the next precompute rebuilds them)
+async function onRulesChanged(shopId: string): Promise<void> {
+  await pool.query('DELETE FROM product_recommendations WHERE shop_id = $1', [shopId]);
+  await invalidateShopCache(shopId);
+}
+
+export async function loadActiveRules(client: any, shopId: string): Promise<MerchandisingRule[]> {
+  const result = await client.query(
+    'SELECT * FROM merchandising_rules WHERE shop_id = $1 AND active ORDER BY id',
+    [shopId]
+  );
+  return result.rows.map(toRule);
+}
+
+// Rules in scope for one recommendation type of one request, resolved into candidate filters
+export interface RulePlan {
+  recommendation_type: RecommendationType;
+  rules: MerchandisingRule[];
+  excluded_product_ids: number[];
+  excluded_vendors: string[]; // lowercased
+  excluded_categories: string[]; // lowercased
+  pinned_product_ids: number[]; // in pin order
+}
+
+const lower = (value: string | null | undefined) => (value || '').toLowerCase();
+
+/**
+ * Resolve the shop's active rules for a recommendation type and the request's source products
+ * Pins are scoped by source product / category; never_crosssell matches either side of the pair.
+ */
+export function buildRulePlan(
+  rules: MerchandisingRule[],
+  recommendationType: RecommendationType,
+  sourceProducts: any[]
+): RulePlan {
+  const sourceIds = sourceProducts.map(p => Number(p.id));
+  const sourceCategories = sourceProducts.map(p => lower(p.category));
+
+  const plan: RulePlan = {
+    recommendation_type: recommendationType,
+    rules: [],
+    excluded_product_ids: [],
+    excluded_vendors: [],
+    excluded_categories: [],
+    pinned_product_ids: [],
+  };
+
+  for (const rule of rules) {
+    if (rule.recommendation_type && rule.recommendation_type !== recommendationType) continue;
+
+    const targets = rule.target_values.map(lower);
+    switch (rule.rule_type) {
+      case 'pin':
+        if (rule.source_product_id !== null && !sourceIds.includes(rule.source_product_id)) continue;
+        if (rule.source_category !== null && !sourceCategories.includes(lower(rule.source_category))) continue;
+        plan.pinned_product_ids.push(...rule.target_values.map(Number).filter(id => !plan.pinned_product_ids.includes(id)));
+        break;
+      case 'exclude':
+        if (rule.target_type === 'product') plan.excluded_product_ids.push(...rule.target_values.map(Number));
+        if (rule.target_type === 'vendor') plan.excluded_vendors.push(...targets);
+        if (rule.target_type === 'category') plan.excluded_categories.push(...targets);
+        break;
+      case 'never_crosssell': {
+        const category = lower(rule.source_category);
+        const matchesSource = sourceCategories.includes(category);
+        const matchesTarget = sourceCategories.some(c => targets.includes(c));
+        if (!matchesSource && !matchesTarget) continue;
+        if (matchesSource) plan.excluded_categories.push(...targets);
+        if (matchesTarget) plan.excluded_categories.push(category);
+        break;
+      }
+      case 'boost':
+      case 'bury':
+        break;
+    }
+    plan.rules.push(rule);
+  }
+
+  // An exclusion wins over a pin
+  plan.pinned_product_ids = plan.pinned_product_ids.filter(id => !plan.excluded_product_ids.includes(id));
+  return plan;
+}
+
+// Candidate-stage check, for candidates not fetched through the filtered tag query (co-purchase)
+export function isCandidateAllowed(candidate: any, plan: RulePlan): boolean {
+  return !plan.excluded_product_ids.includes(Number(candidate.id))
+    && !plan.excluded_vendors.includes(lower(candidate.vendor))
+    && !plan.excluded_categories.includes(lower(candidate.category));
+}
+
+// Exclusions filter candidates before ranking - reported as applied whenever they are in scope
+export function getCandidateStageRules(plan: RulePlan): AppliedRule[] {
+  return plan.rules
+    .filter(rule => rule.rule_type === 'exclude' || rule.rule_type === 'never_crosssell')
+    .map(rule => ({
+      rule_id: rule.id,
+      rule_type: rule.rule_type,
+      recommendation_type: plan.recommendation_type,
+      stage: 'candidates',
+      product_ids: [],
+    }));
+}
+
+/**
+ * Apply pins and boost / bury rules to a ranked list
+ * Pinned candidates go first (added when the ranker dropped them); boosts and buries change the score.
+ * A list ordered by score is re-sorted; an LLM-ordered list keeps the LLM order within equal adjustments.
+ * @param toScored - Converts a candidate the ranker dropped into a ScoredProduct
+ */
+export function applyRankingRules(
+  ranked: ScoredProduct[],
+  candidates: any[],
+  plan: RulePlan,
+  toScored: (candidate: any) => ScoredProduct | null,
+  sortByScore: boolean
+): { products: ScoredProduct[]; applied: AppliedRule[] } {
+  const applied = new Map<number, AppliedRule>();
+  const record = (rule: MerchandisingRule, productId: number) => {
+    const entry = applied.get(rule.id) || {
+      rule_id: rule.id,
+      rule_type: rule.rule_type,
+      recommendation_type: plan.recommendation_type,
+      stage: 'ranking' as const,
+      product_ids: [],
+    };
+    if (!entry.product_ids.includes(productId)) entry.product_ids.push(productId);
+    applied.set(rule.id, entry);
+  };
+  const candidateById = new Map(candidates.map(c => [Number(c.id), c]));
+
+  // Boost / bury
+  const adjustments = new Map<number, number>();
+  for (const product of ranked) {
+    const candidate = candidateById.get(Number(product.id));
+    const tags: string[] = (candidate?.tags || []).map(lower);
+    let adjustment = 0;
+    for (const rule of plan.rules) {
+      if (rule.rule_type !== 'boost' && rule.rule_type !== 'bury') continue;
+      const targets = rule.target_values.map(lower);
+      const matches = rule.target_type === 'vendor'
+        ? targets.includes(lower(product.vendor))
+        : tags.some(tag => targets.includes(tag));
+      if (!matches) continue;
+
+      const delta = rule.rule_type === 'boost' ? rule.weight : -rule.weight;
+      adjustment += delta;
+      product.reasons.push(`${rule.rule_type === 'boost' ? 'boosted' : 'buried'} by rule #${rule.id} (${rule.target_type} ${rule.target_values.join(', ')}, ${delta > 0 ? '+' : ''}${delta})`);
+      record(rule, Number(product.id));
+    }
+    if (adjustment !== 0) {
+      product.score = Number((product.score + adjustment).toFixed(4));
+    }
+    adjustments.set(Number(product.id), adjustment);
+  }
+
+  const products = [...ranked];
+  if (sortByScore) {
+    products.sort((a, b) => b.score - a.score);
+  } else {
+    // Stable sort keeps the LLM order for equal adjustments
+    products.sort((a, b) => (adjustments.get(Number(b.id)) || 0) - (adjustments.get(Number(a.id)) || 0));
+  }
+
+  // Pins, in pin order, ahead of everything else
+  const pinned: ScoredProduct[] = [];
+  for (const productId of plan.pinned_product_ids) {
+    const index = products.findIndex(p => Number(p.id) === productId);
+    const product = index >= 0 ? products.splice(index, 1)[0] : (candidateById.has(productId) ? toScored(candidateById.get(productId)) : null);
+    if (!product) continue; // not a candidate (out of stock, inactive, excluded)
+
+    const rule = plan.rules.find(r => r.rule_type === 'pin' && r.target_values.map(Number).includes(productId))!;
+    product.reasons.push(`pinned by rule #${rule.id}`);
+    record(rule, productId);
+    pinned.push(product);
+  }
+
+  return {
+    products: [...pinned, ...products].slice(0, config.limits.final_recommendations),
+    applied: Array.from(applied.values()),
+  };
+}
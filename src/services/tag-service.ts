@@ -1,102 +1,225 @@
-import type { TagGraphNode, CatalogProduct } from '../types/index.js';
+import type { CatalogProduct, LLMSchema, RelatedTag, TagEdge, TagGraphCoverage, TagRelation } from '../types/index.js';
 import { pool } from '../database/db.js';
+import { config } from '../config.js';
+import { completeWithSchema, getLLMProviderName } from './llm-service.js';
+import type { BatchProgressOptions } from './embedding-service.js';
 
-// Juspay Grid AI endpoint
-const GRID_AI_URL = 'https://grid.ai.juspay.net/v1/chat/completions';
+const TAG_RELATIONS: TagRelation[] = ['complement', 'upgrade', 'substitute'];
 
-// Get API key lazily (after dotenv loads)
-function getGridAIKey(): string {
-  const key = process.env.GRID_AI_API_KEY || '';
-  if (!key) {
-    throw new Error('GRID_AI_API_KEY not found in environment variables');
+// Edge types followed for each recommendation type
+const RELATIONS_BY_TYPE: Record<'upsell' | 'crosssell', TagRelation[]> = {
+  upsell: ['upgrade', 'substitute'],
+  crosssell: ['complement'],
+};
+
+// Validate the LLM's edges for one tag: known relation, target in the shop's tag set,
+// weight clamped to (0, 1], no self-edges or duplicates. Unknown targets are collected in `invented`
+function toTagEdges(tag: string, related: any, knownTags: Set<string>, invented: Set<string>): TagEdge[] {
+  const edges = new Map<string, TagEdge>();
+  if (!Array.isArray(related)) return [];
+
+  for (const item of related) {
+    const edge: TagEdge = typeof item === 'string'
+      ? { tag: item, relation: 'complement', weight: 0.5 }
+      : { tag: item?.tag, relation: item?.relation, weight: Number(item?.weight) };
+
+    if (typeof edge.tag !== 'string' || !edge.tag.trim() || edge.tag === tag) continue;
+    if (!knownTags.has(edge.tag)) {
+      invented.add(edge.tag);
+      continue;
+    }
+    if (!TAG_RELATIONS.includes(edge.relation)) continue;
+    edge.weight = Number.isFinite(edge.weight) ? Math.min(1, Math.max(0.01, edge.weight)) : 0.5;
+
+    const key = `${edge.relation}:${edge.tag}`;
+    const existing = edges.get(key);
+    if (!existing || existing.weight < edge.weight) {
+      edges.set(key, edge);
+    }
   }
-  return key;
+
+  return Array.from(edges.values()).sort((a, b) => b.weight - a.weight);
 }
 
-// Build tag relationship graph using LLM - send all tags at once
-export async function buildTagGraphWithLLM(allTags: string[]): Promise<Map<string, string[]>> {
-  const tagGraph = new Map<string, string[]>();
-  
-  console.log(`\n🤖 Building tag graph with LLM for ${allTags.length} unique tags...`);
-  console.log(`📊 Sending all tags to LLM in one request...`);
-  
-  const llmStartTime = Date.now();
-  
-  try {
-    const response = await fetch(GRID_AI_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${getGridAIKey()}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an e-commerce recommendation expert. For each product tag, suggest 3-5 COMPLEMENTARY PRODUCT tags from the provided list that customers typically buy together.
+const TAG_GRAPH_SYSTEM_PROMPT = `You are an e-commerce recommendation expert. For each product tag, suggest related PRODUCT tags from the provided list, each with a relation type and a strength.
+
+Relation types:
+- "complement": products customers buy together (cross-sell), e.g. "t-shirt" → "jeans", "sneakers"
+- "upgrade": a higher-end product that replaces it (upsell), e.g. "t-shirt" → "polo-shirt"
+- "substitute": a comparable alternative for the same need, e.g. "t-shirt" → "tank-top"
 
 Rules:
-- Focus on PRODUCTS that go well together (e.g., "t-shirt" → ["jeans", "sneakers", "jacket"])
+- Suggest 3-5 complement tags and 1-3 upgrade or substitute tags per tag
+- "weight" is the strength of the relation, from 0.1 (weak) to 1.0 (very strong)
 - ONLY use tags from the provided list - do not invent new tags
 - DO NOT suggest attributes like colors, materials, or styles
-- DO NOT suggest the same category
-- Think cross-sell: what other PRODUCTS would a customer need?
-
-Return ONLY JSON array: [{"tag": "t-shirt", "related": ["jeans", "sneakers", "jacket"]}]`
-          },
-          {
-            role: 'user',
-            content: `Available product tags: ${JSON.stringify(allTags)}\n\nFor EACH tag in the list, suggest 3-5 related tags.`
-          }
-        ],
+
+Return ONLY JSON array: [{"tag": "t-shirt", "related": [{"tag": "jeans", "relation": "complement", "weight": 0.9}, {"tag": "polo-shirt", "relation": "upgrade", "weight": 0.7}]}]`;
+
+// Tag graph reply: one entry per requested tag with at least one valid edge (see toTagEdges)
+function tagGraphSchema(chunk: string[], vocabulary: string[], knownTags: Set<string>, invented: Set<string>): LLMSchema<TagEdge[]> {
+  const requested = new Set(chunk);
+
+  return {
+    shape: 'array',
+    keys: chunk,
+    validate(parsed: any[]) {
+      const items = new Map<string, TagEdge[]>();
+      const errors: string[] = [];
+      for (const item of parsed) {
+        if (typeof item?.tag !== 'string') {
+          errors.push('entry without a "tag" string');
+          continue;
+        }
+        if (!requested.has(item.tag)) {
+          if (!knownTags.has(item.tag)) invented.add(item.tag);
+          errors.push(`tag "${item.tag}" was not requested`);
+          continue;
+        }
+        const edges = toTagEdges(item.tag, item.related, knownTags, invented);
+        if (edges.length === 0) {
+          errors.push(`tag "${item.tag}": no valid related tags from the list`);
+          continue;
+        }
+        if (!items.has(item.tag)) items.set(item.tag, edges);
+      }
+      return { items, errors };
+    },
+    repair(keys, errors) {
+      return {
+        stage: 'tag_graph',
+        system: TAG_GRAPH_SYSTEM_PROMPT,
+        prompt: `Available product tags: ${JSON.stringify(vocabulary)}\n\nYour previous answer was missing or invalid for these tags:\n${errors.slice(0, 20).join('\n')}\n\n` +
+          `For ONLY these ${keys.length} tags, suggest related tags from the available list with relation and weight: ${JSON.stringify(keys)}`,
         temperature: 0.3,
-        max_tokens: 50000
-      })
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`❌ Grid AI API Error (${response.status}):`, errorBody);
-      throw new Error(`Grid AI error: ${response.status} - ${errorBody}`);
-    }
+        maxTokens: config.tag_graph.max_tokens_per_chunk,
+        data: { tags: keys, vocabulary },
+      };
+    },
+  };
+}
+
+// Words of a tag ("polo-shirt" → polo, shirt)
+function tagWords(tag: string): string[] {
+  return tag.split(/[\s\-_/]+/).filter(word => word.length > 2);
+}
+
+/**
+ * Possible related tags offered for one chunk, at most maxVocabulary: the chunk itself, then the other tags
+ * ranked by co-purchases with the chunk's tags, a shared word, and their position in allTags (most used first)
+ * @param affinity - Co-purchase counts between tags (see getTagCoPurchaseAffinity)
+ */
+export function selectChunkVocabulary(
+  chunk: string[],
+  allTags: string[],
+  affinity: Map<string, Map<string, number>>,
+  maxVocabulary: number
+): string[] {
+  if (allTags.length <= maxVocabulary) return allTags;
+  
+  const inChunk = new Set(chunk);
+  const chunkWords = new Set(chunk.flatMap(tagWords));
+  const ranked = allTags
+    .filter(tag => !inChunk.has(tag))
+    .map((tag, index) => ({
+      tag,
+      index,
+      coPurchases: chunk.reduce((sum, source) => sum + (affinity.get(source)?.get(tag) || 0), 0),
+      sharesWord: tagWords(tag).some(word => chunkWords.has(word)),
+    }))
+    .sort((a, b) => b.coPurchases - a.coPurchases
+      || Number(b.sharesWord) - Number(a.sharesWord)
+      || a.index - b.index);
+  
+  return [...chunk, ...ranked.slice(0, Math.max(0, maxVocabulary - chunk.length)).map(t => t.tag)];
+}
+
+/**
+ * Build typed, weighted tag relationship graph using LLM
+ * Tags are sent in chunks of config.tag_graph.chunk_size; each chunk is offered at most
+ * config.tag_graph.max_vocabulary possible related tags (see selectChunkVocabulary).
+ * Tags missing or invalid in a chunk's reply are asked for again (config.llm.repair_attempts).
+ * A failed chunk leaves its tags without edges and shows up in the coverage report.
+ * @param allTags - The shop's tags, most used first
+ * @param affinity - Co-purchase counts between tags, used to pick each chunk's vocabulary
+ */
+export async function buildTagGraphWithLLM(
+  allTags: string[],
+  options: BatchProgressOptions = {},
+  affinity: Map<string, Map<string, number>> = new Map()
+): Promise<{ graph: Map<string, TagEdge[]>; coverage: TagGraphCoverage }> {
+  const tagGraph = new Map<string, TagEdge[]>();
+  const knownTags = new Set(allTags);
+  const inventedTags = new Set<string>();
+  const { chunk_size, max_vocabulary, max_tokens_per_chunk } = config.tag_graph;
+  const totalChunks = Math.ceil(allTags.length / chunk_size);
+  let failedChunks = 0;
+  
+  console.log(`\n🤖 Building tag graph with LLM for ${allTags.length} unique tags...`);
+  console.log(`📊 Sending tags to LLM in ${totalChunks} chunks of up to ${chunk_size}...`);
+  console.log(`📡 Using LLM provider: ${getLLMProviderName('tag_graph')}`);
+  
+  const llmStartTime = Date.now();
+  
+  for (let i = 0; i < allTags.length; i += chunk_size) {
+    await options.checkCancelled?.();
     
-    const data = await response.json();
-    const llmResponse = data.choices?.[0]?.message?.content || '[]';
+    const chunk = allTags.slice(i, i + chunk_size);
+    const chunkNumber = i / chunk_size + 1;
+    const vocabulary = selectChunkVocabulary(chunk, allTags, affinity, max_vocabulary);
     
-    // Parse LLM response
     try {
-      // Remove markdown code blocks if present
-      let jsonText = llmResponse.trim();
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-      }
+      const result = await completeWithSchema({
+        stage: 'tag_graph',
+        system: TAG_GRAPH_SYSTEM_PROMPT,
+        prompt: `Available product tags: ${JSON.stringify(vocabulary)}\n\nFor EACH of these ${chunk.length} tags, suggest related tags with relation and weight: ${JSON.stringify(chunk)}`,
+        temperature: 0.3,
+        maxTokens: max_tokens_per_chunk,
+        data: { tags: chunk, vocabulary },
+      }, tagGraphSchema(chunk, vocabulary, knownTags, inventedTags), options.llmOutput);
       
-      const jsonMatch = jsonText.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const parsedData: Array<{ tag: string; related: string[] }> = JSON.parse(jsonMatch[0]);
-        
-        for (const item of parsedData) {
-          tagGraph.set(item.tag, item.related);
-        }
-        console.log(`✅ Parsed ${parsedData.length} tag relationships from LLM`);
-        console.log(`⏱️  LLM processing time: ${Date.now() - llmStartTime}ms`);
+      for (const [tag, edges] of result.items) {
+        tagGraph.set(tag, edges);
       }
-    } catch (e) {
-      console.warn(`⚠️  Failed to parse LLM response:`, (e as Error).message);
+      console.log(`✅ Chunk ${chunkNumber}/${totalChunks}: ${result.items.size}/${chunk.length} tags with valid relationships`);
+    } catch (error: any) {
+      failedChunks++;
+      console.error(`❌ Chunk ${chunkNumber}/${totalChunks} failed:`, error.message);
     }
     
-    console.log(`\n✅ Tag graph built with ${tagGraph.size} tags using LLM!\n`);
-    
-  } catch (error: any) {
-    console.error('❌ LLM tag graph generation failed:', error.message);
-    console.log('⚠️  Using empty graph\n');
+    await options.onBatchComplete?.(chunkNumber, totalChunks);
   }
   
-  return tagGraph;
+  const tagsWithoutEdges = allTags.filter(tag => !tagGraph.has(tag));
+  const coverage: TagGraphCoverage = {
+    total_tags: allTags.length,
+    covered_tags: tagGraph.size,
+    coverage: allTags.length > 0 ? tagGraph.size / allTags.length : 1,
+    tags_without_edges: tagsWithoutEdges,
+    invented_tags: Array.from(inventedTags),
+    chunks: totalChunks,
+    failed_chunks: failedChunks,
+  };
+  
+  console.log(`⏱️  LLM processing time: ${Date.now() - llmStartTime}ms`);
+  console.log(`\n✅ Tag graph built with ${tagGraph.size} tags using LLM (coverage ${(coverage.coverage * 100).toFixed(1)}%, ${tagsWithoutEdges.length} without edges, ${inventedTags.size} invented tags dropped, ${failedChunks} failed chunks)\n`);
+  
+  return { graph: tagGraph, coverage };
 }
 
-// Normalize tags using simple rules (can be enhanced with LLM later)
+// Merge tag lists: lowercased, trimmed, de-duplicated, first list first (so the LLM's primary tag stays first)
+export function mergeTags(...tagLists: string[][]): string[] {
+  const tags = new Set<string>();
+  for (const list of tagLists) {
+    for (const tag of list) {
+      const normalized = tag.toLowerCase().trim();
+      if (normalized) tags.add(normalized);
+    }
+  }
+  return Array.from(tags);
+}
+
+// Normalize tags using simple rules: category, title words, vendor:<name>, price:<band> and catalog tags
 export function normalizeTags(product: CatalogProduct): string[] {
   const tags = new Set<string>();
   
@@ -142,35 +265,58 @@ function getPriceRangeTag(price: number): string {
   return 'price:luxury';
 }
 
-// Get related tags from the graph
+// Primary product-type tag of each product (first tag, from the LLM) - the tag graph's nodes
+export function getPrimaryTags(products: Array<{ tags?: string[] | null }>): string[] {
+  return Array.from(new Set(products.map(p => p.tags?.[0]).filter((tag): tag is string => Boolean(tag))));
+}
+
+// vendor:<name> and price:<band> tags describe the product, not what it is
+function isAttributeTag(tag: string): boolean {
+  return tag.startsWith('vendor:') || tag.startsWith('price:');
+}
+
+/**
+ * Get related tags from the shop's graph, following the edge types for the recommendation type
+ * Upsell also searches the source tags themselves - a pricier product with the same tag is the most direct upgrade
+ * (pass the primary product-type tags, see getPrimaryTags - vendor: / price: tags are never searched themselves,
+ * an upsell from the same vendor and price band is no upsell)
+ * @returns Related tags ordered by edge weight (strongest edge wins when several source tags point to the same tag)
+ */
 export async function getRelatedTags(
+  shopId: string,
   tags: string[],
   recommendationType: 'upsell' | 'crosssell' = 'crosssell',
-  maxTags: number = 50
-): Promise<string[]> {
-  const client = await pool.connect();
-  
+  maxTags: number = 50,
+  client: any = pool // pass the caller's client so one request never holds two pool connections
+): Promise<RelatedTag[]> {
   try {
-    const relatedTagsSet = new Set<string>();
-    
-    for (const tag of tags) {
-      const result = await client.query(
-        'SELECT children FROM tag_graph WHERE tag_name = $1',
-        [tag]
-      );
-      
-      if (result.rows.length > 0) {
-        const children: string[] = result.rows[0].children; // Now just an array of strings
-        children.forEach(child => relatedTagsSet.add(child));
+    const result = await client.query(
+      `SELECT DISTINCT ON (edge->>'tag')
+         tag_name AS source_tag, edge->>'tag' AS tag, edge->>'relation' AS relation, (edge->>'weight')::float AS weight
+       FROM tag_graph, jsonb_array_elements(edges) AS edge
+       WHERE shop_id = $1
+         AND tag_name = ANY($2::text[])
+         AND edge->>'relation' = ANY($3::text[])
+       ORDER BY edge->>'tag', (edge->>'weight')::float DESC`,
+      [shopId, tags, RELATIONS_BY_TYPE[recommendationType]]
+    );
+
+    const related = new Map<string, RelatedTag>();
+    if (recommendationType === 'upsell') {
+      tags.filter(tag => !isAttributeTag(tag))
+        .forEach(tag => related.set(tag, { source_tag: tag, tag, relation: 'substitute', weight: 1 }));
+    }
+    for (const row of result.rows) {
+      if (!related.has(row.tag)) {
+        related.set(row.tag, { source_tag: row.source_tag, tag: row.tag, relation: row.relation, weight: row.weight });
       }
     }
-    
-    // Return unique related tags
-    return Array.from(relatedTagsSet).slice(0, maxTags);
+
+    return Array.from(related.values())
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, maxTags);
   } catch (error) {
     console.error('❌ Error getting related tags:', error);
     return [];
-  } finally {
-    client.release();
   }
 }
@@ -0,0 +1,234 @@
+import { pool } from '../database/db.js';
+import type {
+  RecommendationEventType,
+  RecommendationReport,
+  RecommendationReportRow,
+  ScoredProduct,
+} from '../types/index.js';
+import { randomUUID } from 'crypto';
+
+type RecommendationType = 'upsell' | 'crosssell';
+
+export const RECOMMENDATION_EVENT_TYPES: RecommendationEventType[] = ['impression', 'click', 'conversion'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The feedback body does not match the served response
+export class TrackingValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid recommendation event: ${errors.join('; ')}`);
+    this.name = 'TrackingValidationError';
+    this.errors = errors;
+  }
+}
+
+// One served item, as stored with its response
+interface ServedItem {
+  product_id: number;
+  variant_id: number;
+  recommendation_type: RecommendationType;
+  position: number;
+  channel: string;
+  price: number;
+}
+
+// Channels that found a product, as one report key ("copurchase+tag_graph"); lists stored before channels were tracked are "unknown"
+function toChannel(product: ScoredProduct): string {
+  return product.channels && product.channels.length > 0 ? [...product.channels].sort().join('+') : 'unknown';
+}
+
+// Number each list's items from 1 - the slot the storefront reports back
+export function withPositions<T extends { upsell: ScoredProduct[]; crosssell: ScoredProduct[] }>(recommendations: T): T {
+  return {
+    ...recommendations,
+    upsell: recommendations.upsell.map((product, i) => ({ ...product, position: i + 1 })),
+    crosssell: recommendations.crosssell.map((product, i) => ({ ...product, position: i + 1 })),
+  };
+}
+
+/**
+ * Store a served response so storefront feedback can be attributed to its items
+ * Tracking must never fail a recommendation request - errors are logged.
+ * @returns The response's recommendation_id
+ */
+export async function recordRecommendationResponse(
+  shopId: string,
+  productIds: number[],
+  served: { ranking_mode: string; served_by: string; experiment: { id: number; arm: string } | null },
+  recommendations: { upsell: ScoredProduct[]; crosssell: ScoredProduct[] }
+): Promise<string> {
+  const recommendationId = randomUUID();
+  const items: ServedItem[] = (['upsell', 'crosssell'] as RecommendationType[]).flatMap(type =>
+    recommendations[type].map((product, i) => ({
+      product_id: Number(product.id),
+      variant_id: Number(product.variant_id),
+      recommendation_type: type,
+      position: product.position ?? i + 1,
+      channel: toChannel(product),
+      price: Number(product.price),
+    }))
+  );
+
+  try {
+    await pool.query(
+      `INSERT INTO recommendation_responses (
+         recommendation_id, shop_id, product_ids, ranking_mode, served_by, experiment_id, experiment_arm, items
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        recommendationId, shopId, productIds, served.ranking_mode, served.served_by,
+        served.experiment?.id ?? null, served.experiment?.arm ?? null, JSON.stringify(items),
+      ]
+    );
+  } catch (error: any) {
+    console.error(`⚠️  Recording recommendation response ${recommendationId} failed:`, error.message);
+  }
+
+  return recommendationId;
+}
+
+/**
+ * Record storefront feedback on a served response
+ *   impression - { product_ids?: number[] } items shown (default: every item)
+ *   click      - { product_id, recommendation_type? }
+ *   conversion - { product_id, recommendation_type?, quantity?, revenue?, order_id? } revenue defaults to price × quantity
+ * recommendation_type is only needed when a product was served in both lists.
+ * @returns Number of events stored, or null when the recommendation_id is unknown
+ */
+export async function recordRecommendationEvent(
+  recommendationId: string,
+  eventType: RecommendationEventType,
+  body: any
+): Promise<number | null> {
+  if (!UUID_PATTERN.test(recommendationId)) return null;
+
+  const result = await pool.query(
+    'SELECT shop_id, items FROM recommendation_responses WHERE recommendation_id = $1',
+    [recommendationId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const shopId: string = result.rows[0].shop_id;
+  const served: ServedItem[] = result.rows[0].items;
+  const items = selectItems(served, eventType, body || {});
+
+  const errors: string[] = [];
+  const quantity = body?.quantity === undefined ? 1 : Number(body.quantity);
+  if (eventType === 'conversion' && (!Number.isInteger(quantity) || quantity < 1)) {
+    errors.push('quantity must be a positive integer');
+  }
+  const revenue = body?.revenue === undefined ? null : Number(body.revenue);
+  if (eventType === 'conversion' && revenue !== null && (!Number.isFinite(revenue) || revenue < 0)) {
+    errors.push('revenue must be a non-negative number');
+  }
+  if (errors.length > 0) {
+    throw new TrackingValidationError(errors);
+  }
+
+  await pool.query(
+    `INSERT INTO recommendation_events (
+       recommendation_id, shop_id, event_type, product_id, recommendation_type, position, channel, quantity, revenue, order_id
+     )
+     SELECT $1, $2, $3, item.product_id, item.recommendation_type, item.position, item.channel, $4, item.revenue, $5
+     FROM jsonb_to_recordset($6::jsonb) AS item(
+       product_id BIGINT, recommendation_type TEXT, position INT, channel TEXT, revenue NUMERIC
+     )`,
+    [
+      recommendationId,
+      shopId,
+      eventType,
+      eventType === 'conversion' ? quantity : 1,
+      body?.order_id ? String(body.order_id) : null,
+      JSON.stringify(items.map(item => ({
+        ...item,
+        revenue: eventType === 'conversion' ? (revenue ?? item.price * quantity) : 0,
+      }))),
+    ]
+  );
+
+  return items.length;
+}
+
+// Served items an event refers to; throws when the body names products that weren't served
+function selectItems(served: ServedItem[], eventType: RecommendationEventType, body: any): ServedItem[] {
+  if (eventType === 'impression') {
+    if (body.product_ids === undefined) return served;
+    if (!Array.isArray(body.product_ids)) {
+      throw new TrackingValidationError(['product_ids must be an array of product ids']);
+    }
+    const ids = body.product_ids.map(Number);
+    const unknown = ids.filter((id: number) => !served.some(item => item.product_id === id));
+    if (unknown.length > 0) {
+      throw new TrackingValidationError([`products ${unknown.join(', ')} were not in this response`]);
+    }
+    return served.filter(item => ids.includes(item.product_id));
+  }
+
+  const productId = Number(body.product_id);
+  if (!Number.isInteger(productId) || productId <= 0) {
+    throw new TrackingValidationError(['product_id is required']);
+  }
+  const matches = served.filter(item =>
+    item.product_id === productId && (!body.recommendation_type || item.recommendation_type === body.recommendation_type)
+  );
+  if (matches.length === 0) {
+    throw new TrackingValidationError([`product ${productId} was not in this response`]);
+  }
+  // Served in both lists: attribute to the first unless recommendation_type says which
+  return [matches[0]!];
+}
+
+/**
+ * CTR and attributed revenue for a shop, overall and per source product, recommendation type and candidate channel
+ * Impressions and clicks count each item of a response once; a response with several source products
+ * counts towards each of them.
+ */
+export async function getRecommendationReport(shopId: string, from: Date, to: Date): Promise<RecommendationReport> {
+  const groups: Record<'totals' | 'by_source_product' | 'by_recommendation_type' | 'by_channel', string> = {
+    totals: `'all'`,
+    by_source_product: 'source.product_id::text',
+    by_recommendation_type: 'ev.recommendation_type',
+    by_channel: 'ev.channel',
+  };
+
+  const rows: Record<string, RecommendationReportRow[]> = {};
+  for (const [group, key] of Object.entries(groups)) {
+    // Totals must not count a response once per source product
+    const sourceJoin = group === 'by_source_product' ? ', UNNEST(r.product_ids) AS source(product_id)' : '';
+    const result = await pool.query(
+      `SELECT ${key} AS key,
+              COUNT(DISTINCT ev.recommendation_id || ':' || ev.recommendation_type || ':' || ev.product_id)
+                FILTER (WHERE ev.event_type = 'impression')::int AS impressions,
+              COUNT(DISTINCT ev.recommendation_id || ':' || ev.recommendation_type || ':' || ev.product_id)
+                FILTER (WHERE ev.event_type = 'click')::int AS clicks,
+              COALESCE(SUM(ev.quantity) FILTER (WHERE ev.event_type = 'conversion'), 0)::int AS conversions,
+              COALESCE(SUM(ev.revenue) FILTER (WHERE ev.event_type = 'conversion'), 0)::float AS attributed_revenue
+       FROM recommendation_events ev
+       JOIN recommendation_responses r ON r.recommendation_id = ev.recommendation_id${sourceJoin}
+       WHERE ev.shop_id = $1 AND ev.occurred_at >= $2 AND ev.occurred_at < $3
+       GROUP BY 1
+       ORDER BY attributed_revenue DESC, clicks DESC`,
+      [shopId, from, to]
+    );
+    rows[group] = result.rows.map((row: any): RecommendationReportRow => ({
+      ...row,
+      ctr: row.impressions > 0 ? Number((row.clicks / row.impressions).toFixed(4)) : 0,
+      attributed_revenue: Number(row.attributed_revenue.toFixed(2)),
+    }));
+  }
+
+  const { key: _key, ...totals } = rows.totals![0] || {
+    key: 'all', impressions: 0, clicks: 0, conversions: 0, ctr: 0, attributed_revenue: 0,
+  };
+
+  return {
+    shop_id: shopId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals,
+    by_source_product: rows.by_source_product!,
+    by_recommendation_type: rows.by_recommendation_type!,
+    by_channel: rows.by_channel!,
+  };
+}
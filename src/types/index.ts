@@ -16,6 +16,20 @@ export interface Product {
   variants: ProductVariant[];
 }
 
+// Ranking strategy used at request time
+// - llm: LLM selects and orders the products
+// - weighted: config.ranking.weights over real signals, no LLM call
+// - hybrid: LLM shortlists, weighted scorer orders the shortlist
+export type RankingMode = 'llm' | 'weighted' | 'hybrid';
+
+// Weights of the weighted score's components
+export interface RankingWeights {
+  embedding_similarity: number;
+  purchase_score: number;
+  merchant_score: number;
+  price_similarity: number;
+}
+
 // Interface for the incoming request payload
 export interface RecommendationRequest {
   shop_id: string;
@@ -41,6 +55,41 @@ export interface CatalogProduct {
   embedding_version?: string;
 }
 
+// Supported catalog upload formats
+export type CatalogFormat = 'json' | 'ndjson' | 'csv' | 'shopify' | 'shopify_csv';
+
+// A raw record from an uploaded catalog, before validation
+export interface CatalogRecord {
+  line: number; // line number (NDJSON/CSV) or 1-based position in the array (JSON)
+  data: any;
+  parseError?: string;
+}
+
+// Parses one upload format into raw records
+export interface CatalogSource {
+  format: CatalogFormat;
+  parse(content: string | object): CatalogRecord[];
+}
+
+// A record rejected during ingestion
+export interface CatalogRecordError {
+  line: number;
+  id?: number | string;
+  errors: string[];
+}
+
+// Result of POST /api/shops/:shopId/catalog
+export interface CatalogIngestResult {
+  shop_id: string;
+  format: CatalogFormat;
+  mode: 'replace' | 'merge';
+  received: number;
+  accepted: number;
+  rejected: number;
+  removed: number;
+  errors: CatalogRecordError[];
+}
+
 // Interface for the flattened, filtered product structure used in the prompt
 export interface FlattenedProduct {
   id: number;
@@ -73,34 +122,112 @@ export interface DBProduct {
   stock: number;
   merchant_score: number;
   purchase_score: number;
+  description: string | null;
   embedding: number[] | null;
   embedding_version: string | null;
+  content_hash: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// How a related tag relates to the source tag
+// complement: bought alongside (crosssell), upgrade: higher-end alternative (upsell), substitute: alternative (upsell)
+export type TagRelation = 'complement' | 'upgrade' | 'substitute';
+
+// A typed, weighted edge from a tag to a related tag
+export interface TagEdge {
+  tag: string;
+  relation: TagRelation;
+  weight: number; // Strength in (0, 1]
+}
+
+// A related tag reached from one of the source products' tags
+export interface RelatedTag extends TagEdge {
+  source_tag: string;
+}
+
 // Tag Graph Node - represents a tag and its related tags
 export interface TagGraphNode {
   tag_name: string;
-  children: string[]; // Just array of related tag names, no weights
+  edges: TagEdge[];
+}
+
+// How much of a shop's tag set the generated graph covers
+export interface TagGraphCoverage {
+  total_tags: number;
+  covered_tags: number; // tags with at least one valid edge
+  coverage: number; // covered_tags / total_tags, 1 for an empty tag set
+  tags_without_edges: string[];
+  invented_tags: string[]; // related tags returned by the LLM that the shop doesn't have (dropped)
+  chunks: number;
+  failed_chunks: number;
 }
 
-// Tag Graph DB Schema
+// Tag Graph DB Schema - one graph per shop
 export interface DBTagGraph {
+  shop_id: string;
   tag_name: string;
-  children: string[]; // Array of related tag names
+  children: string[]; // Array of related tag names (all relations)
+  edges: TagEdge[];
   updated_at: Date;
 }
 
-// Process Tracker
+// Precompute pipeline steps reported on a job
+export type PrecomputeStep =
+  | 'catalog_load'
+  | 'llm_batches'
+  | 'save_products'
+  | 'scoring'
+  | 'copurchase'
+  | 'tag_graph'
+  | 'recommendation_lists';
+
+// Progress of a single precompute step
+export interface PrecomputeStepProgress {
+  status: 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+  started_at?: string;
+  completed_at?: string;
+  duration_ms?: number;
+  done?: number; // e.g. LLM batches done
+  total?: number;
+  failed?: number; // e.g. products whose recommendation list could not be built
+  changed?: number; // products new or changed since the last run
+  skipped?: number; // products unchanged since the last run
+  coverage?: TagGraphCoverage; // tag_graph step only
+  llm_output?: LLMOutputStats; // llm_batches and tag_graph steps
+  batches?: LLMBatchOutcome[]; // llm_batches step, in completion order
+  error?: string;
+}
+
+// Outcome of one precompute LLM batch
+//   completed - every product tagged by the LLM; partial - some fell back to rule-based tags;
+//   fallback  - the LLM request failed and the whole batch uses rule-based tags
+export interface LLMBatchOutcome {
+  batch: number; // 1-based
+  products: number;
+  // embedding_failed: no vectors at all (whatever the tagging did); otherwise by how many products the LLM tagged
+  status: 'completed' | 'partial' | 'fallback' | 'embedding_failed';
+  llm_tagged: number;
+  embedder: EmbeddingProviderName | 'none'; // 'none' - embedding failed, re-embedded in the background
+  duration_ms: number;
+  error?: string;
+}
+
+// Process Tracker - one row per precompute job (id is the job id)
 export interface ProcessTracker {
   id?: number;
   shop_id: string;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
   product_count: number;
+  force_rebuild?: boolean;
+  steps: Partial<Record<PrecomputeStep, PrecomputeStepProgress>>;
+  error_message?: string | null;
+  cancel_requested?: boolean;
+  tag_set_hash?: string | null; // tag set the shop's tag graph was built from
   started_at: Date;
   completed_at?: Date;
   last_run: Date;
+  duration_ms?: number;
 }
 
 // Precomputation Request
@@ -109,6 +236,28 @@ export interface PrecomputeRequest {
   force_rebuild?: boolean;
 }
 
+// Behavioural event types, weakest to strongest purchase signal
+export type BehaviorEventType = 'view' | 'add_to_cart' | 'purchase';
+
+// A storefront event (POST /api/events)
+export interface BehaviorEvent {
+  shop_id: string;
+  event_type: BehaviorEventType;
+  product_id: number;
+  variant_id: number | null;
+  session_id: string;
+  order_id: string | null;
+  quantity: number;
+  occurred_at: Date;
+}
+
+// Result of POST /api/events
+export interface EventIngestResult {
+  accepted: number;
+  rejected: number;
+  errors: Array<{ index: number; errors: string[] }>;
+}
+
 // Recommendation Response
 export interface RecommendationResponse {
   shop_id: string;
@@ -120,13 +269,295 @@ export interface RecommendationResponse {
   processing_time_ms: number;
 }
 
-// Scored Product for Ranking
+// An in-stock variant of a recommended product
+export interface RecommendedVariant {
+  variant_id: number;
+  variant_title: string;
+  price: number;
+  inventory_quantity: number;
+}
+
+// Scored Product for Ranking - one per product; variant_id is the selected in-stock variant
 export interface ScoredProduct extends FlattenedProduct {
   score: number;
   embedding_similarity: number;
   merchant_score: number;
   purchase_score: number;
   price_similarity: number;
+  reasons: string[]; // why it was recommended, e.g. "co-purchased 42 times", "LLM selected (#1)"
+  channels?: string[]; // candidate channels that found it: tag_graph, copurchase
+  position?: number; // 1-based slot in its list, set on the response
+  variants?: RecommendedVariant[]; // all in-stock variants, selected first (include_variants only)
+}
+
+// A candidate as seen by the ranker, with its weighted score (debug trace)
+export interface CandidateTrace {
+  id: number;
+  title: string;
+  category: string;
+  price: number;
+  channels: string[];
+  tag_overlap: number;
+  tag_weight: number;
+  co_purchase_count: number;
+  price_band_violation: string | null; // why the price band rejects it, null when it fits
+  score: number;
+  embedding_similarity: number;
+  merchant_score: number;
+  purchase_score: number;
+  price_similarity: number;
+  reasons: string[];
+}
+
+// How one recommendation type was ranked (debug trace)
+export interface RankingTrace {
+  path: 'llm' | 'hybrid' | 'weighted' | 'weighted_fallback' | 'no_candidates';
+  llm_provider?: string;
+  llm_system?: string;
+  llm_prompt?: string;
+  llm_response?: string;
+  llm_repair_responses?: string[]; // replies to repair requests for lists missing or invalid in llm_response
+  llm_errors?: string[]; // schema violations, e.g. ids not in the candidate list
+  llm_output?: LLMOutputStats;
+  error?: string; // why the LLM path fell back
+  price_band_rejections?: Array<{ id: number; reason: string }>; // LLM picks outside the price band
+  diversity_skipped?: Array<{ id: number; reason: string }>; // ranked products left out by a diversity cap
+}
+
+// Ranked products per type, with the merchandising rules applied and the trace when requested
+export interface RecommendationResult {
+  upsell: ScoredProduct[];
+  crosssell: ScoredProduct[];
+  applied_rules?: AppliedRule[];
+  trace?: RecommendationTrace;
+}
+
+// One arm of an A/B experiment - what changes for the subjects assigned to it (nothing = control)
+export interface ExperimentArm {
+  name: string;
+  traffic: number; // relative share of subjects
+  ranking_mode?: RankingMode;
+  weights?: Partial<RankingWeights>;
+  model?: string; // ranking LLM model
+  candidate_pool_size?: number;
+}
+
+export type ExperimentStatus = 'running' | 'paused' | 'completed';
+
+// A/B experiment as stored in experiments - at most one runs per shop
+export interface Experiment {
+  id: number;
+  shop_id: string;
+  name: string;
+  status: ExperimentStatus;
+  arms: ExperimentArm[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+// The arm a recommendation request was served from
+export interface ExperimentAssignment {
+  experiment_id: number;
+  experiment_name: string;
+  arm: ExperimentArm;
+  subject_id: string;
+}
+
+// Per-arm outcome of an experiment (GET /api/shops/:shopId/experiments/:id/report)
+export interface ExperimentArmReport {
+  arm: string;
+  subjects: number;
+  impressions: number; // recommendation responses served
+  items_shown: number;
+  clicks: number; // recommended products clicked (click events on the arm's responses)
+  conversions: number; // recommended products bought (conversion events on the arm's responses)
+  ctr: number; // clicks / items_shown
+  conversion_rate: number; // conversions / items_shown
+}
+
+// Storefront feedback on a served recommendation response
+export type RecommendationEventType = 'impression' | 'click' | 'conversion';
+
+// Impressions, clicks, conversions and attributed revenue for one report group
+export interface RecommendationReportRow {
+  key: string;
+  impressions: number; // distinct items reported as shown
+  clicks: number; // distinct items clicked
+  conversions: number;
+  ctr: number; // clicks / impressions
+  attributed_revenue: number;
+}
+
+// GET /api/shops/:shopId/recommendations/report
+export interface RecommendationReport {
+  shop_id: string;
+  from: string;
+  to: string;
+  totals: Omit<RecommendationReportRow, 'key'>;
+  by_source_product: RecommendationReportRow[];
+  by_recommendation_type: RecommendationReportRow[];
+  by_channel: RecommendationReportRow[];
+}
+
+// Held-out basket replayed by the offline evaluator - products bought together in one order
+export interface EvaluationBasket {
+  basket_id: string;
+  product_ids: number[];
+}
+
+// One configuration compared by the offline evaluator
+export interface EvaluationConfig {
+  name: string;
+  ranking_mode?: RankingMode; // default config.ranking.default_mode
+  mode?: RecommendationPath; // default 'live'; 'precomputed' falls back to live ranking like the API
+  recommendation_type?: Array<'upsell' | 'crosssell'>; // lists scored, in this order (default crosssell)
+  weights?: Partial<RankingWeights>;
+  model?: string;
+  candidate_pool_size?: number;
+  config?: Record<string, any>; // deep-merged over config for the run, e.g. { "diversity": { "lambda": 0.5 } }
+}
+
+// Ranking quality of one configuration, averaged over every replayed query
+export interface EvaluationMetrics {
+  queries: number; // source products replayed (one per basket item)
+  precision_at_k: number;
+  recall_at_k: number;
+  ndcg_at_k: number;
+  hit_rate_at_k: number; // queries with at least one basket item in the top k
+  coverage: number; // distinct recommended products / active products
+  diversity: number; // mean intra-list diversity: 1 - pairwise similarity
+  empty_rate: number; // queries with no recommendations
+  avg_latency_ms: number;
+}
+
+export interface EvaluationRun {
+  config: EvaluationConfig;
+  metrics: EvaluationMetrics;
+  errors: number; // queries the pipeline failed on
+}
+
+export interface EvaluationReport {
+  shop_id: string;
+  k: number;
+  baskets: number;
+  generated_at: string;
+  runs: EvaluationRun[];
+}
+
+// Merchandising rule kinds:
+//   pin             - always show target products first (optionally only for a source product / category)
+//   exclude         - never show target products, vendors or categories
+//   boost / bury    - raise / lower the score of products with a target tag or vendor by weight
+//   never_crosssell - never crosssell source_category with the target categories (either way round)
+export type MerchandisingRuleType = 'pin' | 'exclude' | 'boost' | 'bury' | 'never_crosssell';
+
+export type RuleTargetType = 'product' | 'vendor' | 'category' | 'tag';
+
+// Merchandising rule as stored in merchandising_rules
+export interface MerchandisingRule {
+  id: number;
+  shop_id: string;
+  rule_type: MerchandisingRuleType;
+  recommendation_type: 'upsell' | 'crosssell' | null; // null = both
+  source_product_id: number | null;
+  source_category: string | null;
+  target_type: RuleTargetType;
+  target_values: string[];
+  weight: number;
+  active: boolean;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A rule that shaped a response - candidate-stage rules (exclusions) don't list products
+export interface AppliedRule {
+  rule_id: number;
+  rule_type: MerchandisingRuleType;
+  recommendation_type: 'upsell' | 'crosssell';
+  stage: 'candidates' | 'ranking';
+  product_ids: number[];
+}
+
+// Full trace of a live recommendation request (debug: true)
+export interface RecommendationTrace {
+  source_products: Array<{ id: number; title: string; tags: string[] }>;
+  source_tags: string[];
+  related_tags: Partial<Record<'upsell' | 'crosssell', RelatedTag[]>>;
+  candidates: Partial<Record<'upsell' | 'crosssell', CandidateTrace[]>>;
+  ranking: Partial<Record<'upsell' | 'crosssell', RankingTrace>>;
+  timings_ms: Record<string, number>;
+}
+
+// Which path served a recommendation request
+export type RecommendationPath = 'precomputed' | 'live';
+
+// Where a cached response was found
+export type CacheTier = 'memory' | 'postgres';
+
+// Per-request options for getRecommendations
+export interface RecommendationOptions {
+  variant_ids?: number[]; // source variants - candidates pick the variant with the same size/options
+  include_variants?: boolean;
+  debug?: boolean; // return a RecommendationTrace
+  weights?: Partial<RankingWeights>; // override config.ranking.weights (experiment arm)
+  model?: string; // override the ranking LLM model (experiment arm)
+  candidate_pool_size?: number; // tag-graph candidates per type (default config.limits.candidate_pool_size)
+}
+
+// Pipeline stages that call an LLM - each can use its own provider
+export type LLMStage = 'product_tagging' | 'tag_graph' | 'ranking';
+
+// 'auto' picks Neurolink / Gemini / Grid AI from the environment (see .env.example)
+export type LLMProviderName = 'grid' | 'gemini' | 'neurolink' | 'mock' | 'auto';
+
+// A single LLM completion request
+export interface LLMRequest {
+  stage: LLMStage;
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Structured input behind the prompt, used by the offline mock provider
+  data?: unknown;
+  model?: string; // overrides config.llm.models[stage]
+}
+
+// Common interface for every LLM backend
+export interface LLMProvider {
+  name: Exclude<LLMProviderName, 'auto'>;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+// Typed shape of an LLM reply - items the request asked for, each validated on its own
+export interface LLMSchema<T> {
+  shape: 'array' | 'object';
+  keys: string[]; // items requested: product ids, tags or recommendation types
+  // Valid items of a parsed reply by key, plus one message per rejected item or id
+  validate(parsed: any): { items: Map<string, T>; errors: string[] };
+  // Targeted follow-up request for the items still missing or invalid
+  repair(keys: string[], errors: string[]): LLMRequest;
+}
+
+// Validation counts of LLM replies - per stage since start, per precompute step, per ranking trace
+export interface LLMOutputStats {
+  replies: number; // repair replies included
+  parse_failures: number; // replies that weren't valid JSON of the expected shape (complete items are still salvaged)
+  invalid_items: number; // items or ids rejected by the schema
+  repair_requests: number;
+  repaired_items: number; // items that only validated after a repair request
+  unresolved_items: number; // items still missing after every repair - the caller's fallback covers them
+}
+
+// Embedding backends - 'local' runs offline, the others call a remote API
+export type EmbeddingProviderName = 'local' | 'google';
+
+// Common interface for every embedding backend
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
 }
 
 // Config
@@ -139,16 +570,85 @@ export interface Config {
     password: string;
   };
   embedding: {
+    provider: EmbeddingProviderName;
     model: string;
     version: string;
     dimensions: number;
+    fallback_provider: EmbeddingProviderName | 'none';
+    circuit_breaker: {
+      failure_threshold: number;
+      cooldown_ms: number;
+    };
+  };
+  http: {
+    timeout_ms: number;
+    max_retries: number;
+    base_delay_ms: number;
+    max_delay_ms: number;
+  };
+  llm_batches: {
+    batch_size: number;
+    concurrency: number;
   };
   ranking: {
-    weights: {
-      embedding_similarity: number;
-      purchase_score: number;
-      merchant_score: number;
-      price_similarity: number;
+    default_mode: RankingMode;
+    weights: RankingWeights;
+  };
+  events: {
+    weights: Record<BehaviorEventType, number>;
+    half_life_days: number;
+    lookback_days: number;
+  };
+  copurchase: {
+    min_co_count: number;
+    min_support: number;
+    min_lift: number;
+    max_neighbors: number;
+    lookback_days: number;
+    candidate_limit: number;
+  };
+  recommendation_lists: {
+    ranking_mode: RankingMode;
+    batch_size: number;
+  };
+  cache: {
+    enabled: boolean;
+    max_entries: number;
+    ttl_seconds: number;
+    shared_tier: 'none' | 'postgres';
+  };
+  tag_graph: {
+    chunk_size: number;
+    max_vocabulary: number;
+    max_tokens_per_chunk: number;
+    min_coverage: number;
+    on_low_coverage: 'fail' | 'keep_previous';
+  };
+  llm: {
+    providers: Record<LLMStage, LLMProviderName>;
+    models: Record<LLMStage, string>;
+    repair_attempts: number;
+  };
+  rules: {
+    default_weight: number;
+  };
+  diversity: {
+    enabled: boolean;
+    lambda: number;
+    pool_size: number;
+    max_per_vendor: number;
+    max_per_tag: number;
+    max_per_title_stem: number;
+  };
+  pricing: {
+    upsell: {
+      min_ratio: number;
+      max_ratio: number;
+      target_ratio: number;
+      same_category: boolean;
+    };
+    crosssell: {
+      max_cart_ratio: number;
     };
   };
   limits: {
@@ -15,6 +15,10 @@ curl -s -X POST "${BASE_URL}/api/precompute" \
   -H "Content-Type: application/json" \
   -d '{"shop_id": "test-shop", "force_rebuild": true}' | jq '.'
 
+# Test 2b: Precompute job history for the shop
+echo -e "\n📈 Testing precompute history endpoint..."
+curl -s "${BASE_URL}/api/shops/test-shop/precompute?limit=1" | jq '.'
+
 # Test 3: Get recommendations with product IDs
 echo -e "\n3️⃣ Testing recommendations endpoint..."
 curl -s -X POST "${BASE_URL}/api/recommendations" \
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CatalogParseError,
+  detectCatalogFormat,
+  fromShopifyProduct,
+  getCatalogSource,
+} from '../src/services/catalog-source.js';
+import { validateCatalogProduct } from '../src/services/catalog-service.js';
+
+describe('json source', () => {
+  it('accepts { products: [...] } and a bare array', () => {
+    const product = { id: 1, title: 'Tee' };
+    assert.deepEqual(getCatalogSource('json').parse(JSON.stringify({ products: [product] })), [{ line: 1, data: product }]);
+    assert.deepEqual(getCatalogSource('json').parse([product]), [{ line: 1, data: product }]);
+  });
+
+  it('throws CatalogParseError for unreadable uploads', () => {
+    assert.throws(() => getCatalogSource('json').parse('{not json'), CatalogParseError);
+    assert.throws(() => getCatalogSource('json').parse('{"items": []}'), CatalogParseError);
+  });
+});
+
+describe('ndjson source', () => {
+  it('reports bad lines with their line number and keeps the rest', () => {
+    const records = getCatalogSource('ndjson').parse('{"id": 1}\n\n{oops\n{"id": 2}\n');
+
+    assert.deepEqual(records.map(r => r.line), [1, 3, 4]);
+    assert.deepEqual(records[0]!.data, { id: 1 });
+    assert.equal(records[1]!.data, null);
+    assert.match(records[1]!.parseError!, /Invalid JSON/);
+    assert.deepEqual(records[2]!.data, { id: 2 });
+  });
+});
+
+describe('csv source', () => {
+  const csv = [
+    'id,title,status,category,price,vendor,tags,variant_id,variant_title,variant_price,variant_inventory_quantity',
+    '1,"Tee, organic",active,shirts,25,Acme,"cotton, summer",11,S,25,3',
+    '1,"Tee, organic",active,shirts,25,Acme,"cotton, summer",12,M,27,0',
+    '2,"Cap ""classic""",,hats,15,Acme,,21,Default Title,,4',
+  ].join('\r\n');
+
+  it('groups variant rows by product id and handles quoted fields', () => {
+    const records = getCatalogSource('csv').parse(csv);
+
+    assert.equal(records.length, 2);
+    assert.equal(records[0]!.line, 2);
+    assert.equal(records[0]!.data.title, 'Tee, organic');
+    assert.deepEqual(records[0]!.data.tags, ['cotton', 'summer']);
+    assert.deepEqual(records[0]!.data.variants.map((v: any) => v.title), ['S', 'M']);
+    assert.equal(records[1]!.data.title, 'Cap "classic"');
+    assert.equal(records[1]!.data.status, undefined);
+  });
+
+  it('falls back to the product price for variants without one', () => {
+    const records = getCatalogSource('csv').parse(csv);
+    assert.equal(records[1]!.data.variants[0].price, '15');
+  });
+
+  it('produces records that validate as catalog products', () => {
+    const [tee] = getCatalogSource('csv').parse(csv);
+    const { product, errors } = validateCatalogProduct(tee!.data);
+
+    assert.deepEqual(errors, []);
+    assert.equal(product!.price, 25);
+    assert.equal(product!.stock, 3);
+  });
+});
+
+describe('shopify source', () => {
+  it('maps product_type, comma-separated tags and the cheapest variant price', () => {
+    const mapped = fromShopifyProduct({
+      id: 7,
+      title: 'Hoodie',
+      status: 'active',
+      product_type: 'hoodies',
+      vendor: 'Acme',
+      tags: 'warm, winter',
+      variants: [
+        { id: 71, title: 'S', price: '60.00', inventory_quantity: 2 },
+        { id: 72, title: 'L', price: '55.00' },
+      ],
+    });
+
+    assert.equal(mapped.category, 'hoodies');
+    assert.deepEqual(mapped.tags, ['warm', 'winter']);
+    assert.equal(mapped.price, 55);
+    assert.equal(mapped.variants[1].inventory_quantity, 0);
+  });
+});
+
+describe('shopify_csv source', () => {
+  it('groups continuation rows by Handle and builds variant titles from the options', () => {
+    const csv = [
+      'Handle,Title,Vendor,Type,Tags,Status,Option1 Value,Option2 Value,Variant SKU,Variant Price,Variant Inventory Qty',
+      'runner,Runner Shoe,Acme,Shoes,"sport, running",Active,Blue,42,RUN-B-42,90,5',
+      'runner,,,,,,Red,43,RUN-R-43,85,1',
+    ].join('\n');
+
+    const records = getCatalogSource('shopify_csv').parse(csv);
+
+    assert.equal(records.length, 1);
+    const { data } = records[0]!;
+    assert.equal(data.status, 'active');
+    assert.equal(data.category, 'Shoes');
+    assert.equal(data.price, 85);
+    assert.deepEqual(data.variants.map((v: any) => v.title), ['Blue / 42', 'Red / 43']);
+    assert.equal(typeof data.id, 'number');
+    assert.deepEqual(getCatalogSource('shopify_csv').parse(csv)[0]!.data.id, data.id);
+  });
+});
+
+describe('detectCatalogFormat', () => {
+  it('guesses the format from the Content-Type', () => {
+    assert.equal(detectCatalogFormat('application/x-ndjson'), 'ndjson');
+    assert.equal(detectCatalogFormat('text/csv; charset=utf-8'), 'csv');
+    assert.equal(detectCatalogFormat(undefined), 'json');
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScoredProduct } from '../src/types/index.js';
+import { config } from '../src/config.js';
+import { getEmbeddingVersion } from '../src/services/embedding-provider.js';
+import { candidateSimilarity, diversifyRecommendations, getTitleStem } from '../src/services/diversity-service.js';
+
+const version = getEmbeddingVersion();
+
+function scored(id: number, score: number, overrides: Partial<ScoredProduct> = {}): ScoredProduct {
+  return {
+    id,
+    title: `Product ${id}`,
+    variant_id: id * 10,
+    variant_title: 'Default Title',
+    category: 'hats',
+    price: 20,
+    vendor: `Vendor ${id}`,
+    score,
+    embedding_similarity: 0,
+    merchant_score: 0,
+    purchase_score: 0,
+    price_similarity: 0,
+    reasons: [],
+    ...overrides,
+  };
+}
+
+describe('getTitleStem', () => {
+  it('drops the colourway after a separator', () => {
+    assert.equal(getTitleStem('Classic Cotton - White'), 'classic cotton');
+    assert.equal(getTitleStem('Runner | Blue'), 'runner');
+    assert.equal(getTitleStem('T-Shirt'), 't-shirt');
+    assert.equal(getTitleStem(undefined), '');
+  });
+});
+
+describe('candidateSimilarity', () => {
+  it('uses the embeddings when both are current, the title stem otherwise', () => {
+    const a = { title: 'Tee - White', embedding: [1, 0], embedding_version: version };
+    assert.equal(candidateSimilarity(a, { title: 'Cap', embedding: [1, 0], embedding_version: version }), 1);
+    assert.equal(candidateSimilarity(a, { title: 'Cap', embedding: [-1, 0], embedding_version: version }), 0);
+    assert.equal(candidateSimilarity(a, { title: 'Tee - Black', embedding: null }), 1);
+    assert.equal(candidateSimilarity(a, { title: 'Cap', embedding: null }), 0);
+  });
+});
+
+describe('diversifyRecommendations', () => {
+  const original = { ...config.diversity };
+
+  afterEach(() => {
+    config.diversity = { ...original };
+  });
+
+  const ranked = [scored(1, 1), scored(2, 0.9), scored(3, 0.6)];
+  const candidates = [
+    { id: 1, tags: ['cap'], embedding: [1, 0], embedding_version: version },
+    { id: 2, tags: ['beanie'], embedding: [1, 0], embedding_version: version },
+    { id: 3, tags: ['scarf'], embedding: [0, 1], embedding_version: version },
+  ];
+
+  it('trades relevance for products unlike those already picked', () => {
+    config.diversity = { ...original, lambda: 0.5 };
+    assert.deepEqual(diversifyRecommendations(ranked, candidates, true).products.map(p => p.id), [1, 3, 2]);
+
+    config.diversity = { ...original, lambda: 1 };
+    assert.deepEqual(diversifyRecommendations(ranked, candidates, true).products.map(p => p.id), [1, 2, 3]);
+  });
+
+  it('uses the list position as relevance for LLM-ordered lists', () => {
+    config.diversity = { ...original, lambda: 1 };
+    const llmOrdered = [scored(3, 0.1), scored(1, 0.9), scored(2, 0.5)];
+    assert.deepEqual(diversifyRecommendations(llmOrdered, candidates, false).products.map(p => p.id), [3, 1, 2]);
+  });
+
+  it('skips products over the vendor, tag and title stem caps', () => {
+    config.diversity = { ...original, lambda: 1, max_per_vendor: 1, max_per_tag: 1, max_per_title_stem: 1 };
+    const capped = [
+      scored(1, 1, { vendor: 'Acme', title: 'Tee - White' }),
+      scored(2, 0.9, { vendor: 'ACME' }),
+      scored(3, 0.8, { title: 'Tee - Black' }),
+      scored(4, 0.7),
+      scored(5, 0.6),
+    ];
+    const tagged = [{ id: 4, tags: ['scarf'] }, { id: 5, tags: ['scarf'] }];
+
+    const { products, skipped } = diversifyRecommendations(capped, tagged, true);
+
+    assert.deepEqual(products.map(p => p.id), [1, 4]);
+    assert.deepEqual(skipped, [
+      { id: 2, reason: 'vendor ACME already has 1' },
+      { id: 3, reason: 'style "tee" already has 1' },
+      { id: 5, reason: 'tag scarf already has 1' },
+    ]);
+  });
+
+  it('returns the ranked list cut to the limit when disabled', () => {
+    config.diversity = { ...original, enabled: false };
+    assert.deepEqual(diversifyRecommendations(ranked, candidates, true, 2).products.map(p => p.id), [1, 2]);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config.js';
+import { embedWithFallback, getEmbeddingProvider, getEmbeddingVersion } from '../src/services/embedding-provider.js';
+
+describe('local provider', () => {
+  it('embeds deterministically into normalised vectors of the configured size', async () => {
+    const provider = getEmbeddingProvider();
+    const [first, again, other] = await provider.embed(['Classic Cotton Tee', 'Classic Cotton Tee', 'Leather Belt']);
+
+    assert.equal(provider.name, 'local');
+    assert.equal(first!.length, config.embedding.dimensions);
+    assert.deepEqual(first, again);
+    assert.notDeepEqual(first, other);
+    assert.ok(Math.abs(Math.hypot(...first!) - 1) < 1e-9);
+  });
+});
+
+describe('getEmbeddingVersion', () => {
+  it('records the provider, so switching EMBEDDING_PROVIDER changes the version', () => {
+    const original = process.env.EMBEDDING_PROVIDER;
+    try {
+      delete process.env.EMBEDDING_PROVIDER;
+      assert.equal(getEmbeddingVersion(), `${config.embedding.version}:local:${config.embedding.model}`);
+      process.env.EMBEDDING_PROVIDER = 'google';
+      assert.equal(getEmbeddingVersion(), `${config.embedding.version}:google:${config.embedding.model}`);
+    } finally {
+      if (original === undefined) delete process.env.EMBEDDING_PROVIDER;
+      else process.env.EMBEDDING_PROVIDER = original;
+    }
+  });
+});
+
+describe('embedWithFallback', () => {
+  const original = structuredClone(config.embedding);
+  const originalEnv = { provider: process.env.EMBEDDING_PROVIDER, apiKey: process.env.RECOMMENDATIONS_API_KEY };
+
+  const restoreEnv = (name: string, value: string | undefined) => {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  };
+
+  beforeEach(async () => {
+    // A successful primary call closes the circuit left by the previous test
+    delete process.env.EMBEDDING_PROVIDER;
+    await embedWithFallback(['reset']);
+
+    // Google without an API key fails at once, without any network call
+    process.env.EMBEDDING_PROVIDER = 'google';
+    delete process.env.RECOMMENDATIONS_API_KEY;
+    config.embedding = { ...structuredClone(original), circuit_breaker: { failure_threshold: 2, cooldown_ms: 60000 } };
+  });
+
+  afterEach(() => {
+    config.embedding = structuredClone(original);
+    restoreEnv('EMBEDDING_PROVIDER', originalEnv.provider);
+    restoreEnv('RECOMMENDATIONS_API_KEY', originalEnv.apiKey);
+    mock.restoreAll();
+  });
+
+  it('returns primary vectors under the configured version', async () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    const result = await embedWithFallback(['tee']);
+
+    assert.equal(result.provider, 'local');
+    assert.equal(result.version, 'v2:local:local-ngram-projection');
+  });
+
+  it('embeds with the fallback under its own version when the primary fails', async () => {
+    const result = await embedWithFallback(['tee', 'belt']);
+
+    assert.equal(result.provider, 'local');
+    assert.equal(result.version, getEmbeddingVersion('local'));
+    assert.equal(result.embeddings.length, 2);
+  });
+
+  it('skips the primary while the circuit is open', async () => {
+    const warn = mock.method(console, 'warn', () => {});
+    const primaryFailures = () => warn.mock.calls.filter(call => String(call.arguments[0]).startsWith('⚠️  Embedding with google failed')).length;
+
+    await embedWithFallback(['tee']);
+    await embedWithFallback(['tee']);
+    assert.equal(primaryFailures(), 2);
+
+    const result = await embedWithFallback(['tee']);
+    assert.equal(primaryFailures(), 2);
+    assert.equal(result.version, getEmbeddingVersion('local'));
+  });
+
+  it('tries the primary again once the cooldown is over', async () => {
+    config.embedding.circuit_breaker.cooldown_ms = 0;
+    const warn = mock.method(console, 'warn', () => {});
+
+    for (let i = 0; i < 3; i++) await embedWithFallback(['tee']);
+
+    assert.equal(warn.mock.calls.filter(call => String(call.arguments[0]).startsWith('⚠️  Embedding with google failed')).length, 3);
+  });
+
+  it('throws when there is no fallback provider', async () => {
+    config.embedding.fallback_provider = 'none';
+    await assert.rejects(embedWithFallback(['tee']), /RECOMMENDATIONS_API_KEY not found/);
+  });
+});
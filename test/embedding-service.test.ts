@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CatalogProduct, LLMBatchOutcome } from '../src/types/index.js';
+import { config } from '../src/config.js';
+import { batchGenerateEmbeddings, buildEmbeddingText, createProductText } from '../src/services/embedding-service.js';
+
+function product(id: number): CatalogProduct {
+  return {
+    id,
+    title: `Classic Tee ${id}`,
+    status: 'active',
+    category: 'Shirts',
+    price: 25,
+    vendor: 'Acme',
+    variants: [{ id: id * 10, title: 'Default Title', price: 25, inventory_quantity: 5 }],
+    tags: ['cotton'],
+  };
+}
+
+describe('buildEmbeddingText', () => {
+  it('puts the semantic description before the product text', () => {
+    const text = createProductText(product(1));
+
+    assert.equal(text, 'Classic Tee 1 | Shirts | Acme | price: $25 | tags: cotton');
+    assert.equal(buildEmbeddingText(product(1), 'A soft tee'), `A soft tee ${text}`);
+    assert.equal(buildEmbeddingText(product(1), text), text);
+    assert.equal(buildEmbeddingText(product(1), null), text);
+  });
+});
+
+describe('batchGenerateEmbeddings', () => {
+  const original = {
+    llm_batches: { ...config.llm_batches },
+    embedding: structuredClone(config.embedding),
+  };
+  const originalEnv = {
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    RECOMMENDATIONS_API_KEY: process.env.RECOMMENDATIONS_API_KEY,
+  };
+  const products = Array.from({ length: 10 }, (_, i) => product(i + 1));
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock';
+    delete process.env.EMBEDDING_PROVIDER;
+    config.llm_batches = { batch_size: 4, concurrency: 3 };
+  });
+
+  afterEach(() => {
+    config.llm_batches = { ...original.llm_batches };
+    config.embedding = structuredClone(original.embedding);
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('tags and embeds every product, reporting each batch once', async () => {
+    const outcomes: LLMBatchOutcome[] = [];
+    const progress: string[] = [];
+
+    const results = await batchGenerateEmbeddings(products, {
+      onBatchOutcome: async outcome => { outcomes.push(outcome); },
+      onBatchComplete: async (done, total) => { progress.push(`${done}/${total}`); },
+    });
+
+    assert.equal(results.size, 10);
+    assert.deepEqual(results.get(1)!.tags.slice(0, 2), ['shirts', 'classic']);
+    assert.equal(results.get(1)!.embedding_version, 'v2:local:local-ngram-projection');
+    assert.deepEqual(progress, ['1/3', '2/3', '3/3']);
+    assert.deepEqual(
+      outcomes.sort((a, b) => a.batch - b.batch).map(o => [o.batch, o.products, o.status, o.llm_tagged, o.embedder]),
+      [[1, 4, 'completed', 4, 'local'], [2, 4, 'completed', 4, 'local'], [3, 2, 'completed', 2, 'local']]
+    );
+  });
+
+  it('records batches without embeddings as embedding_failed', async () => {
+    process.env.EMBEDDING_PROVIDER = 'google';
+    delete process.env.RECOMMENDATIONS_API_KEY;
+    config.embedding = { ...structuredClone(original.embedding), fallback_provider: 'none' };
+    const outcomes: LLMBatchOutcome[] = [];
+
+    const results = await batchGenerateEmbeddings(products.slice(0, 4), {
+      onBatchOutcome: async outcome => { outcomes.push(outcome); },
+    });
+
+    assert.equal(outcomes[0]!.status, 'embedding_failed');
+    assert.equal(outcomes[0]!.embedder, 'none');
+    assert.match(outcomes[0]!.error!, /Embedding: RECOMMENDATIONS_API_KEY not found/);
+    assert.equal(results.get(1)!.embedding, null);
+    assert.equal(results.get(1)!.embedding_version, null);
+  });
+
+  it('stops starting batches once cancelled and rethrows the cancellation', async () => {
+    config.llm_batches = { batch_size: 2, concurrency: 1 };
+    let checks = 0;
+    const cancelled = new Error('cancelled');
+
+    await assert.rejects(batchGenerateEmbeddings(products, {
+      checkCancelled: async () => {
+        if (++checks === 3) throw cancelled;
+      },
+    }), cancelled);
+    assert.equal(checks, 3);
+  });
+});
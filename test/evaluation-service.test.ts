@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EvaluationMetrics, EvaluationReport } from '../src/types/index.js';
+import {
+  EvaluationInputError,
+  intraListDiversity,
+  ndcgAtK,
+  parseBaskets,
+  parseEvaluationConfig,
+  renderEvaluationMarkdown,
+} from '../src/services/evaluation-service.js';
+
+describe('parseBaskets', () => {
+  it('accepts basket objects and bare id arrays, dropping baskets with one distinct product', () => {
+    const baskets = parseBaskets([
+      { basket_id: '#1001', product_ids: [1, 2] },
+      [3, '4', 4],
+      [5, 5],
+      { order_id: '#1002', product_ids: [6, 7] },
+    ]);
+
+    assert.deepEqual(baskets, [
+      { basket_id: '#1001', product_ids: [1, 2] },
+      { basket_id: '1', product_ids: [3, 4] },
+      { basket_id: '#1002', product_ids: [6, 7] },
+    ]);
+  });
+
+  it('reports every invalid basket', () => {
+    assert.throws(() => parseBaskets({}), EvaluationInputError);
+    assert.throws(() => parseBaskets([[1, 2], [1, 'x'], { product_ids: [0, 1] }]), (error: EvaluationInputError) => {
+      assert.deepEqual(error.errors, [
+        'basket 1: product_ids must be an array of product ids',
+        'basket 2: product_ids must be an array of product ids',
+      ]);
+      return true;
+    });
+  });
+});
+
+describe('parseEvaluationConfig', () => {
+  it('names the config after its file when it has no name', () => {
+    assert.deepEqual(parseEvaluationConfig({ ranking_mode: 'weighted' }, 'weighted.json'), {
+      ranking_mode: 'weighted',
+      name: 'weighted.json',
+    });
+  });
+
+  it('rejects unknown modes, types and pool sizes', () => {
+    assert.throws(() => parseEvaluationConfig([], 'list.json'), EvaluationInputError);
+    assert.throws(
+      () => parseEvaluationConfig({ name: 'bad', ranking_mode: 'random', recommendation_type: [], candidate_pool_size: 0 }, 'bad.json'),
+      (error: EvaluationInputError) => {
+        assert.deepEqual(error.errors, [
+          'bad: ranking_mode must be one of: llm, weighted, hybrid',
+          'bad: recommendation_type must be a non-empty array of upsell / crosssell',
+          'bad: candidate_pool_size must be a positive integer',
+        ]);
+        return true;
+      }
+    );
+  });
+});
+
+describe('ndcgAtK', () => {
+  it('is 1 when the relevant products lead the list and discounts later hits', () => {
+    assert.equal(ndcgAtK([1, 2, 3], new Set([1, 2]), 3), 1);
+    assert.equal(ndcgAtK([3, 4, 5], new Set([1, 2]), 3), 0);
+    assert.equal(ndcgAtK([3, 1], new Set([1]), 3), 1 / Math.log2(3));
+  });
+
+  it('only counts the top k', () => {
+    assert.equal(ndcgAtK([3, 4, 1], new Set([1]), 2), 0);
+  });
+});
+
+describe('intraListDiversity', () => {
+  it('is 1 minus the mean pairwise similarity, skipping lists under two products', () => {
+    const products = new Map([
+      [1, { title: 'Tee - White' }],
+      [2, { title: 'Tee - Black' }],
+      [3, { title: 'Cap' }],
+    ]);
+
+    assert.equal(intraListDiversity([1, 2], products), 0);
+    assert.equal(intraListDiversity([1, 2, 3], products), 1 - 1 / 3);
+    assert.equal(intraListDiversity([1, 99], products), null);
+  });
+});
+
+describe('renderEvaluationMarkdown', () => {
+  const metrics = (overrides: Partial<EvaluationMetrics>): EvaluationMetrics => ({
+    queries: 10,
+    precision_at_k: 0.1,
+    recall_at_k: 0.2,
+    ndcg_at_k: 0.3,
+    hit_rate_at_k: 0.4,
+    coverage: 0.5,
+    diversity: 0.6,
+    empty_rate: 0,
+    avg_latency_ms: 100,
+    ...overrides,
+  });
+
+  it('shows every run after the first with its change against the first', () => {
+    const report: EvaluationReport = {
+      shop_id: 'shop',
+      k: 6,
+      baskets: 5,
+      generated_at: '2026-01-01T00:00:00.000Z',
+      runs: [
+        { config: { name: 'baseline' }, metrics: metrics({}), errors: 0 },
+        { config: { name: 'diverse' }, metrics: metrics({ precision_at_k: 0.05, diversity: 0.8 }), errors: 2 },
+      ],
+    };
+
+    const markdown = renderEvaluationMarkdown([report]);
+
+    assert.match(markdown, /^# Offline evaluation - shop\n/);
+    assert.match(markdown, /\| Metric \| baseline \| diverse \|/);
+    assert.match(markdown, /\| Precision@6 \| 0.1 \| 0.05 \(-0.05\) \|/);
+    assert.match(markdown, /\| Diversity \| 0.6 \| 0.8 \(\+0.2\) \|/);
+    assert.match(markdown, /\| Queries \| 10 \| 10 \(\+0\) \|/);
+    assert.match(markdown, /diverse: 2 queries failed and were left out/);
+  });
+});
@@ -0,0 +1,95 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { config } from '../src/config.js';
+import { fetchWithRetry, HttpError, withTimeout } from '../src/services/http-client.js';
+
+describe('fetchWithRetry', () => {
+  const original = { ...config.http };
+  let server: Server;
+  let url: string;
+  let handle: (res: ServerResponse, hit: number) => void;
+  let hits: number;
+
+  before(async () => {
+    server = createServer((_req, res) => handle(res, ++hits));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = 0;
+    config.http = { timeout_ms: 200, max_retries: 2, base_delay_ms: 1, max_delay_ms: 5 };
+  });
+
+  afterEach(() => {
+    config.http = { ...original };
+  });
+
+  it('retries a 429 after Retry-After and returns the response read into memory', async () => {
+    handle = (res, hit) => {
+      if (hit === 1) res.writeHead(429, { 'retry-after': '0' }).end('slow down');
+      else res.writeHead(200, { 'content-type': 'application/json' }).end('{"ok":true}');
+    };
+
+    const response = await fetchWithRetry(url, {}, 'Test API');
+
+    assert.equal(hits, 2);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'application/json');
+    assert.deepEqual(await response.json(), { ok: true });
+  });
+
+  it('throws other 4xx at once', async () => {
+    handle = res => res.writeHead(400).end('bad request');
+
+    await assert.rejects(fetchWithRetry(url, {}, 'Test API'), (error: HttpError) => {
+      assert.ok(error instanceof HttpError);
+      assert.equal(error.status, 400);
+      assert.equal(error.message, 'Test API error: 400 - bad request');
+      return true;
+    });
+    assert.equal(hits, 1);
+  });
+
+  it('gives up on server errors after max_retries', async () => {
+    handle = res => res.writeHead(503).end('unavailable');
+
+    await assert.rejects(fetchWithRetry(url, {}, 'Test API'), { name: 'HttpError', status: 503 });
+    assert.equal(hits, 3);
+  });
+
+  it('times out a response that stalls mid-body', async () => {
+    config.http = { ...config.http, max_retries: 0 };
+    handle = res => {
+      res.writeHead(200);
+      res.write('{"partial":');
+    };
+
+    await assert.rejects(fetchWithRetry(url, {}, 'Test API'), /Test API request timed out after 200ms/);
+  });
+});
+
+describe('withTimeout', () => {
+  const original = { ...config.http };
+
+  afterEach(() => {
+    config.http = { ...original };
+  });
+
+  it('rejects a promise that outlives timeout_ms', async () => {
+    config.http = { ...original, timeout_ms: 20 };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const slow = new Promise(resolve => { timer = setTimeout(resolve, 1000); });
+
+    await assert.rejects(withTimeout(slow, 'SDK'), /SDK request timed out after 20ms/);
+    clearTimeout(timer);
+    assert.equal(await withTimeout(Promise.resolve('done'), 'SDK'), 'done');
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LLMRequest, LLMSchema } from '../src/types/index.js';
+import {
+  addLLMOutputStats,
+  completeWithLLM,
+  completeWithSchema,
+  emptyLLMOutputStats,
+  parseLLMJson,
+  salvageJsonArrayItems,
+} from '../src/services/llm-service.js';
+
+describe('parseLLMJson', () => {
+  it('strips code fences and surrounding prose', () => {
+    assert.deepEqual(parseLLMJson('```json\n[{"id": 1}]\n```', 'array'), [{ id: 1 }]);
+    assert.deepEqual(parseLLMJson('Here you go: {"upsell": [2]} Hope it helps!', 'object'), { upsell: [2] });
+  });
+
+  it('throws when there is no JSON of the requested shape', () => {
+    assert.throws(() => parseLLMJson('{"id": 1}', 'array'), /No JSON array found/);
+    assert.throws(() => parseLLMJson('[{"id": 1},', 'array'), /No JSON array found/);
+  });
+});
+
+describe('salvageJsonArrayItems', () => {
+  it('keeps the complete elements of a cut-off array', () => {
+    const reply = '[{"id": 1, "tags": ["a]"]}, {"id": 2, "tags": ["b"]}, {"id": 3, "tags": ["c';
+    assert.deepEqual(salvageJsonArrayItems(reply), [{ id: 1, tags: ['a]'] }, { id: 2, tags: ['b'] }]);
+  });
+
+  it('drops malformed elements and finds nothing without an array', () => {
+    assert.deepEqual(salvageJsonArrayItems('[{"id": 1}, {"id": }, {"id": 3}]'), [{ id: 1 }, { id: 3 }]);
+    assert.deepEqual(salvageJsonArrayItems('no json here'), []);
+  });
+});
+
+describe('addLLMOutputStats', () => {
+  it('adds every count into the first', () => {
+    const total = emptyLLMOutputStats();
+    addLLMOutputStats(total, { ...emptyLLMOutputStats(), replies: 2, repaired_items: 1 });
+    addLLMOutputStats(total, { ...emptyLLMOutputStats(), replies: 1, parse_failures: 1 });
+
+    assert.deepEqual(total, { ...emptyLLMOutputStats(), replies: 3, parse_failures: 1, repaired_items: 1 });
+  });
+});
+
+describe('with the mock provider', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock';
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = originalProvider;
+  });
+
+  const products = [1, 2, 3].map(id => ({ id, title: `Product ${id}`, category: 'hats', vendor: 'Acme', price: 20 }));
+  const request = (ids: number[]): LLMRequest => ({
+    stage: 'product_tagging',
+    prompt: 'tag',
+    data: { products: products.filter(p => ids.includes(p.id)) },
+  });
+
+  // Accepts tagged products, except those in reject (for the first `times` validations)
+  function taggingSchema(reject: string[], times: number): LLMSchema<string[]> & { repaired: string[][] } {
+    let validations = 0;
+    const repaired: string[][] = [];
+    return {
+      shape: 'array',
+      keys: ['1', '2', '3'],
+      repaired,
+      validate(parsed: any[]) {
+        const rejecting = validations++ < times;
+        const items = new Map<string, string[]>();
+        const errors: string[] = [];
+        for (const entry of parsed) {
+          if (rejecting && reject.includes(String(entry.id))) errors.push(`id ${entry.id}: rejected`);
+          else items.set(String(entry.id), entry.tags);
+        }
+        return { items, errors };
+      },
+      repair(keys) {
+        repaired.push(keys);
+        return request(keys.map(Number));
+      },
+    };
+  }
+
+  it('requests only the rejected items again and keeps the rest of the first reply', async () => {
+    const schema = taggingSchema(['2'], 1);
+    const stats = emptyLLMOutputStats();
+
+    const result = await completeWithSchema(request([1, 2, 3]), schema, stats);
+
+    assert.deepEqual([...result.items.keys()].sort(), ['1', '2', '3']);
+    assert.deepEqual(result.missing, []);
+    assert.deepEqual(result.errors, ['id 2: rejected']);
+    assert.deepEqual(schema.repaired, [['2']]);
+    assert.deepEqual(stats, {
+      replies: 2,
+      parse_failures: 0,
+      invalid_items: 1,
+      repair_requests: 1,
+      repaired_items: 1,
+      unresolved_items: 0,
+    });
+  });
+
+  it('leaves items missing once the repair attempts are used up', async () => {
+    const stats = emptyLLMOutputStats();
+
+    const result = await completeWithSchema(request([1, 2, 3]), taggingSchema(['3'], Infinity), stats);
+
+    assert.deepEqual(result.missing, ['3']);
+    assert.equal(result.items.size, 2);
+    assert.equal(stats.repair_requests, 1);
+    assert.equal(stats.unresolved_items, 1);
+  });
+
+  it('ranks upsells and crosssells within the configured price bands', async () => {
+    const reply = await completeWithLLM({
+      stage: 'ranking',
+      prompt: 'rank',
+      data: {
+        sourceProducts: [{ id: 1, category: 'shirts', price: 50 }],
+        candidates: [
+          { id: 2, category: 'shirts', price: 52 },
+          { id: 3, category: 'shirts', price: 65 },
+          { id: 4, category: 'shirts', price: 200 },
+          { id: 5, category: 'hats', price: 20 },
+          { id: 6, category: 'hats', price: 80 },
+        ],
+      },
+    });
+
+    assert.deepEqual(JSON.parse(reply), { upsell: [3], crosssell: [5] });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config.js';
+import { getEmbeddingVersion } from '../src/services/embedding-provider.js';
+import {
+  checkPriceBand,
+  computeEmbeddingSimilarity,
+  computePriceSimilarity,
+  filterByPriceBand,
+  getVariantOptions,
+  rankCandidatesWeighted,
+  rankVariants,
+  scoreCandidate,
+  toScoredProduct,
+} from '../src/services/ranking-service.js';
+
+const version = getEmbeddingVersion();
+
+function product(id: number, overrides: Record<string, any> = {}): any {
+  return {
+    id,
+    title: `Product ${id}`,
+    category: 'shirts',
+    vendor: 'Acme',
+    price: 50,
+    merchant_score: 0,
+    purchase_score: 0,
+    embedding: null,
+    embedding_version: null,
+    variants: [{ id: id * 10, title: 'Default Title', price: overrides.price ?? 50, inventory_quantity: 5 }],
+    ...overrides,
+  };
+}
+
+describe('computePriceSimilarity', () => {
+  it('is 1 for equal prices and falls off with the relative gap', () => {
+    assert.equal(computePriceSimilarity(50, 50), 1);
+    assert.equal(computePriceSimilarity(50, 100), 0.5);
+    assert.equal(computePriceSimilarity(100, 50), 0.5);
+  });
+
+  it('is 0 when there is no price to compare', () => {
+    assert.equal(computePriceSimilarity(0, 0), 0);
+  });
+});
+
+describe('computeEmbeddingSimilarity', () => {
+  it('maps the best cosine similarity to [0, 1]', () => {
+    const source = product(1, { embedding: [1, 0], embedding_version: version });
+    assert.equal(computeEmbeddingSimilarity([source], product(2, { embedding: [1, 0], embedding_version: version })), 1);
+    assert.equal(computeEmbeddingSimilarity([source], product(3, { embedding: [-1, 0], embedding_version: version })), 0);
+    assert.equal(computeEmbeddingSimilarity([source], product(4, { embedding: [0, 1], embedding_version: version })), 0.5);
+  });
+
+  it('never compares vectors of another embedding version', () => {
+    const source = product(1, { embedding: [1, 0], embedding_version: version });
+    const stale = product(2, { embedding: [1, 0], embedding_version: `${version}-old` });
+    assert.equal(computeEmbeddingSimilarity([source], stale), 0);
+  });
+
+  it('treats vectors of another provider as stale', () => {
+    const original = process.env.EMBEDDING_PROVIDER;
+    const source = product(1, { embedding: [1, 0], embedding_version: version });
+    const candidate = product(2, { embedding: [1, 0], embedding_version: version });
+
+    process.env.EMBEDDING_PROVIDER = 'google';
+    try {
+      assert.notEqual(getEmbeddingVersion(), version);
+      assert.equal(computeEmbeddingSimilarity([source], candidate), 0);
+    } finally {
+      if (original === undefined) delete process.env.EMBEDDING_PROVIDER;
+      else process.env.EMBEDDING_PROVIDER = original;
+    }
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('combines the components with the given weights', () => {
+    const weights = { embedding_similarity: 0.4, purchase_score: 0.3, merchant_score: 0.2, price_similarity: 0.1 };
+    const source = product(1, { embedding: [1, 0], embedding_version: version });
+    const candidate = product(2, { embedding: [1, 0], embedding_version: version, merchant_score: 0.5, purchase_score: 1 });
+
+    const scored = scoreCandidate([source], candidate, 50, 'crosssell', weights);
+
+    assert.deepEqual(scored, {
+      score: 0.9, // 0.4 * 1 + 0.3 * 1 + 0.2 * 0.5 + 0.1 * 1
+      embedding_similarity: 1,
+      merchant_score: 0.5,
+      purchase_score: 1,
+      price_similarity: 1,
+    });
+  });
+
+  it('measures an upsell price against target_ratio x the source price', () => {
+    const source = product(1, { price: 100 });
+    const atTarget = scoreCandidate([source], product(2), 100 * config.pricing.upsell.target_ratio, 'upsell');
+    const samePrice = scoreCandidate([source], product(3), 100, 'upsell');
+
+    assert.equal(atTarget.price_similarity, 1);
+    assert.ok(samePrice.price_similarity < 1);
+  });
+});
+
+describe('checkPriceBand', () => {
+  const shirt = product(1, { category: 'shirts', price: 50 });
+
+  it('keeps upsells of the source type within min_ratio-max_ratio x its price', () => {
+    assert.equal(checkPriceBand([shirt], product(2), 65, 'upsell'), null);
+    assert.match(checkPriceBand([shirt], product(3), 40, 'upsell')!, /cheaper than the source/);
+    assert.match(checkPriceBand([shirt], product(4), 52, 'upsell')!, /outside 1.1x-2x/);
+    assert.match(checkPriceBand([shirt], product(5), 150, 'upsell')!, /outside 1.1x-2x/);
+    assert.match(checkPriceBand([shirt], product(6, { category: 'hats' }), 65, 'upsell')!, /not the source product type/);
+  });
+
+  it('measures an upsell against the source products of its own type', () => {
+    const cart = [shirt, product(7, { category: 'hats', price: 10 })];
+    assert.equal(checkPriceBand(cart, product(8), 65, 'upsell'), null);
+  });
+
+  it('caps crosssells at max_cart_ratio x the cart value', () => {
+    const cart = [shirt, product(7, { category: 'hats', price: 10 })];
+    assert.equal(checkPriceBand(cart, product(9, { category: 'socks' }), 60, 'crosssell'), null);
+    assert.match(checkPriceBand(cart, product(9, { category: 'socks' }), 61, 'crosssell')!, /crosssell ceiling/);
+  });
+});
+
+describe('filterByPriceBand', () => {
+  it('checks the selected variant price and keeps pinned products whatever their price', () => {
+    const source = product(1, { category: 'hats', price: 50 });
+    const candidate = product(2, {
+      category: 'shirts',
+      price: 30,
+      variants: [{ id: 21, title: 'XL', price: 80, inventory_quantity: 3 }],
+    });
+    const scored = toScoredProduct([source], candidate)!;
+
+    assert.deepEqual(filterByPriceBand([source], [scored], 'crosssell'), []);
+    assert.deepEqual(filterByPriceBand([source], [scored], 'crosssell', new Set([2])), [scored]);
+  });
+});
+
+describe('rankCandidatesWeighted', () => {
+  const source = product(1, { category: 'shirts', price: 50 });
+
+  it('sorts each type by weighted score', () => {
+    const candidates = [
+      product(2, { category: 'hats', price: 20, merchant_score: 0.1 }),
+      product(3, { category: 'hats', price: 20, merchant_score: 1 }),
+    ];
+
+    const ranked = rankCandidatesWeighted([source], candidates, ['crosssell']);
+
+    assert.deepEqual(ranked.crosssell.map(p => p.id), [3, 2]);
+    assert.ok(ranked.crosssell[0]!.reasons.some(reason => reason.startsWith('weighted score')));
+  });
+
+  it("leaves the source products' own types out of crosssell", () => {
+    const ranked = rankCandidatesWeighted([source], [product(2, { category: 'shirts', price: 20 })], ['crosssell']);
+    assert.deepEqual(ranked.crosssell, []);
+  });
+
+  it('skips candidates with no variant in stock', () => {
+    const soldOut = product(2, {
+      category: 'hats',
+      price: 20,
+      variants: [{ id: 20, title: 'Default Title', price: 20, inventory_quantity: 0 }],
+    });
+    assert.deepEqual(rankCandidatesWeighted([source], [soldOut], ['crosssell']).crosssell, []);
+  });
+});
+
+describe('getVariantOptions', () => {
+  it('splits a variant title into lowercased option values', () => {
+    assert.deepEqual(getVariantOptions('Blue / M'), ['blue', 'm']);
+    assert.deepEqual(getVariantOptions('Default Title'), []);
+    assert.deepEqual(getVariantOptions(undefined), []);
+  });
+});
+
+describe('rankVariants', () => {
+  const variants = [
+    { id: 1, title: 'Red / S', price: 20, inventory_quantity: 9 },
+    { id: 2, title: 'Blue / M', price: 20, inventory_quantity: 2 },
+    { id: 3, title: 'Red / M', price: 20, inventory_quantity: 4 },
+    { id: 4, title: 'Blue / L', price: 20, inventory_quantity: 0 },
+  ];
+
+  it('drops sold-out variants and prefers the most shared options, then stock', () => {
+    assert.deepEqual(rankVariants(variants, ['blue', 'm']).map(v => v.id), [2, 3, 1]);
+    assert.deepEqual(rankVariants(variants, []).map(v => v.id), [1, 3, 2]);
+  });
+});
+
+describe('toScoredProduct', () => {
+  const source = product(1);
+  const candidate = product(2, {
+    category: 'hats',
+    variants: [
+      { id: 21, title: 'S', price: 18, inventory_quantity: 8 },
+      { id: 22, title: 'M', price: 19, inventory_quantity: 1 },
+    ],
+  });
+
+  it('recommends the variant matching the source size at its own price', () => {
+    const scored = toScoredProduct([source], candidate, { source_options: ['m'], include_variants: false })!;
+
+    assert.equal(scored.variant_id, 22);
+    assert.equal(scored.price, 19);
+    assert.equal(scored.variants, undefined);
+    assert.ok(scored.reasons.includes('variant M matches source option m'));
+  });
+
+  it('nests every in-stock variant, selected first, when asked to', () => {
+    const scored = toScoredProduct([source], candidate, { source_options: ['m'], include_variants: true })!;
+    assert.deepEqual(scored.variants!.map(v => v.variant_id), [22, 21]);
+  });
+
+  it('returns null when no variant is in stock', () => {
+    const soldOut = product(3, { variants: [{ id: 31, title: 'S', price: 10, inventory_quantity: 0 }] });
+    assert.equal(toScoredProduct([source], soldOut), null);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../src/database/db.js';
+import { getEmbeddingVersion } from '../src/services/embedding-provider.js';
+import { reembedStaleProducts } from '../src/services/reembedding-service.js';
+
+describe('reembedStaleProducts', () => {
+  const originalEnv = { provider: process.env.EMBEDDING_PROVIDER, apiKey: process.env.RECOMMENDATIONS_API_KEY };
+  const staleRow = (id: number) => ({
+    id,
+    shop_id: 'shop',
+    description: null,
+    product: { id, title: `Tee ${id}`, category: 'shirts', vendor: 'Acme', price: 20, tags: [] },
+  });
+  let selects: number;
+  let updates: any[][];
+
+  // Serves `batches` SELECT results in turn (then none) and records every UPDATE
+  const mockQueries = (batches: any[][]) => {
+    mock.method(pool, 'query', async (sql: string, params: any[]) => {
+      if (sql.trim().startsWith('SELECT')) return { rows: batches[selects++] ?? [] };
+      updates.push(params);
+      return { rows: [] };
+    });
+  };
+
+  beforeEach(() => {
+    selects = 0;
+    updates = [];
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    for (const [name, value] of [['EMBEDDING_PROVIDER', originalEnv.provider], ['RECOMMENDATIONS_API_KEY', originalEnv.apiKey]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('stores primary vectors under the current version until no stale product is left', async () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    mockQueries([[staleRow(1), staleRow(2)], [staleRow(3)]]);
+
+    assert.equal(await reembedStaleProducts(2), 3);
+    assert.equal(selects, 3);
+    assert.deepEqual(updates.map(params => [params[3], params[1]]), [[1, getEmbeddingVersion()], [2, getEmbeddingVersion()], [3, getEmbeddingVersion()]]);
+  });
+
+  it("stores the fallback's version and stops while the primary is failing", async () => {
+    process.env.EMBEDDING_PROVIDER = 'google';
+    delete process.env.RECOMMENDATIONS_API_KEY;
+    mockQueries([[staleRow(1), staleRow(2)], [staleRow(3)]]);
+
+    assert.equal(await reembedStaleProducts(2), 2);
+    assert.equal(selects, 1);
+    assert.deepEqual(updates.map(params => params[1]), [getEmbeddingVersion('local'), getEmbeddingVersion('local')]);
+  });
+});
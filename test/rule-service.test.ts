@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MerchandisingRule, ScoredProduct } from '../src/types/index.js';
+import { applyRankingRules, buildRulePlan, isCandidateAllowed } from '../src/services/rule-service.js';
+import { mergeStoredLists } from '../src/services/recommendation-list-service.js';
+
+function rule(id: number, overrides: Partial<MerchandisingRule>): MerchandisingRule {
+  return {
+    id,
+    shop_id: 'shop',
+    rule_type: 'pin',
+    recommendation_type: null,
+    source_product_id: null,
+    source_category: null,
+    target_type: 'product',
+    target_values: [],
+    weight: 0,
+    active: true,
+    description: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function scored(id: number, score: number, overrides: Partial<ScoredProduct> = {}): ScoredProduct {
+  return {
+    id,
+    title: `Product ${id}`,
+    variant_id: id * 10,
+    variant_title: 'Default Title',
+    category: 'hats',
+    price: 20,
+    vendor: 'Acme',
+    score,
+    embedding_similarity: 0,
+    merchant_score: 0,
+    purchase_score: 0,
+    price_similarity: 0,
+    reasons: [],
+    ...overrides,
+  };
+}
+
+const source = { id: 1, category: 'Shirts' };
+
+describe('buildRulePlan', () => {
+  it('scopes pins to their source product and category', () => {
+    const plan = buildRulePlan([
+      rule(1, { target_values: ['10'], source_product_id: 1 }),
+      rule(2, { target_values: ['11'], source_product_id: 2 }),
+      rule(3, { target_values: ['12'], source_category: 'shirts' }),
+      rule(4, { target_values: ['13'], recommendation_type: 'upsell' }),
+    ], 'crosssell', [source]);
+
+    assert.deepEqual(plan.pinned_product_ids, [10, 12]);
+    assert.deepEqual(plan.rules.map(r => r.id), [1, 3]);
+  });
+
+  it('lets an exclusion win over a pin', () => {
+    const plan = buildRulePlan([
+      rule(1, { target_values: ['10', '11'] }),
+      rule(2, { rule_type: 'exclude', target_values: ['11'] }),
+    ], 'crosssell', [source]);
+
+    assert.deepEqual(plan.pinned_product_ids, [10]);
+    assert.deepEqual(plan.excluded_product_ids, [11]);
+  });
+
+  it('applies never_crosssell from either side of the pair', () => {
+    const neverCrosssell = rule(1, { rule_type: 'never_crosssell', target_type: 'category', source_category: 'Shirts', target_values: ['Ties'] });
+
+    assert.deepEqual(buildRulePlan([neverCrosssell], 'crosssell', [source]).excluded_categories, ['ties']);
+    assert.deepEqual(buildRulePlan([neverCrosssell], 'crosssell', [{ id: 2, category: 'ties' }]).excluded_categories, ['shirts']);
+    assert.deepEqual(buildRulePlan([neverCrosssell], 'crosssell', [{ id: 3, category: 'hats' }]).rules, []);
+  });
+});
+
+describe('isCandidateAllowed', () => {
+  it('rejects excluded products, vendors and categories case-insensitively', () => {
+    const plan = buildRulePlan([
+      rule(1, { rule_type: 'exclude', target_type: 'vendor', target_values: ['ACME'] }),
+    ], 'crosssell', [source]);
+
+    assert.equal(isCandidateAllowed({ id: 5, vendor: 'acme', category: 'hats' }, plan), false);
+    assert.equal(isCandidateAllowed({ id: 6, vendor: 'Other', category: 'hats' }, plan), true);
+  });
+});
+
+describe('applyRankingRules', () => {
+  it('boosts, buries and re-sorts a score-ordered list, pins first', () => {
+    const plan = buildRulePlan([
+      rule(1, { rule_type: 'boost', target_type: 'vendor', target_values: ['Nova'], weight: 0.5 }),
+      rule(2, { rule_type: 'bury', target_type: 'tag', target_values: ['clearance'], weight: 0.5 }),
+      rule(3, { target_values: ['9'] }),
+    ], 'crosssell', [source]);
+    const ranked = [scored(2, 0.9), scored(3, 0.6, { vendor: 'Nova' }), scored(4, 0.5)];
+    const candidates = [
+      { id: 2, tags: ['clearance'] },
+      { id: 3, tags: [] },
+      { id: 4, tags: [] },
+      { id: 9, tags: [] },
+    ];
+
+    const { products, applied } = applyRankingRules(ranked, candidates, plan, candidate => scored(Number(candidate.id), 0.1), true);
+
+    assert.deepEqual(products.map(p => p.id), [9, 3, 4, 2]);
+    assert.equal(products[1]!.score, 1.1);
+    assert.equal(products[3]!.score, 0.4);
+    const appliedByRule = [...applied].sort((a, b) => a.rule_id - b.rule_id);
+    assert.deepEqual(appliedByRule.map(a => [a.rule_id, a.product_ids]), [[1, [3]], [2, [2]], [3, [9]]]);
+  });
+
+  it('keeps an LLM-ordered list in order apart from the adjustments', () => {
+    const plan = buildRulePlan([
+      rule(1, { rule_type: 'bury', target_type: 'vendor', target_values: ['acme'], weight: 0.1 }),
+    ], 'crosssell', [source]);
+    const ranked = [scored(2, 0.1, { vendor: 'Acme' }), scored(3, 0.2, { vendor: 'Nova' }), scored(4, 0.9, { vendor: 'Nova' })];
+
+    const { products } = applyRankingRules(ranked, [], plan, () => null, false);
+
+    assert.deepEqual(products.map(p => p.id), [3, 4, 2]);
+  });
+});
+
+describe('mergeStoredLists', () => {
+  it('serves a single list in its stored order', () => {
+    const list = [scored(2, 0.1), scored(3, 0.9), scored(4, 0.5)];
+    assert.deepEqual(mergeStoredLists([list], new Set()).map(p => p.id), [2, 3, 4]);
+  });
+
+  it('puts pins first and interleaves the lists rank by rank, once per product', () => {
+    const first = [scored(9, 0), scored(2, 0.9), scored(3, 0.8)];
+    const second = [scored(5, 0.2), scored(2, 0.7), scored(6, 0.1)];
+
+    assert.deepEqual(mergeStoredLists([first, second], new Set([9])).map(p => p.id), [9, 5, 2, 3, 6]);
+  });
+});
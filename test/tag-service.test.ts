@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config.js';
+import {
+  buildTagGraphWithLLM,
+  getPrimaryTags,
+  mergeTags,
+  normalizeTags,
+  selectChunkVocabulary,
+} from '../src/services/tag-service.js';
+
+describe('normalizeTags', () => {
+  it('adds category, title words, vendor and price band tags', () => {
+    const tags = normalizeTags({
+      id: 1,
+      title: 'The Classic Polo Shirt',
+      category: 'Shirts',
+      vendor: 'Blue Harbor',
+      price: 80,
+      variants: [],
+      status: 'active',
+      tags: ['Summer'],
+    });
+
+    assert.deepEqual(tags, ['shirts', 'classic', 'polo', 'shirt', 'vendor:blue-harbor', 'price:premium', 'summer']);
+  });
+});
+
+describe('mergeTags', () => {
+  it('lowercases, de-duplicates and keeps the first list first', () => {
+    assert.deepEqual(mergeTags(['Polo-Shirt'], ['shirts', 'polo-shirt ', '']), ['polo-shirt', 'shirts']);
+  });
+});
+
+describe('getPrimaryTags', () => {
+  it('takes the first tag of each product, once', () => {
+    assert.deepEqual(
+      getPrimaryTags([{ tags: ['t-shirt', 'price:mid'] }, { tags: ['t-shirt'] }, { tags: [] }, { tags: null }, { tags: ['jeans'] }]),
+      ['t-shirt', 'jeans']
+    );
+  });
+});
+
+describe('selectChunkVocabulary', () => {
+  const allTags = ['jeans', 't-shirt', 'sneakers', 'polo-shirt', 'belt', 'socks', 'hat', 'scarf'];
+
+  it('offers every tag when the shop has few enough', () => {
+    assert.deepEqual(selectChunkVocabulary(['t-shirt'], allTags, new Map(), 20), allTags);
+  });
+
+  it('ranks co-purchased tags, then tags sharing a word, then the most used', () => {
+    const affinity = new Map([['t-shirt', new Map([['belt', 3]])]]);
+    assert.deepEqual(selectChunkVocabulary(['t-shirt'], allTags, affinity, 4), ['t-shirt', 'belt', 'polo-shirt', 'jeans']);
+  });
+});
+
+describe('buildTagGraphWithLLM', () => {
+  const original = { ...config.tag_graph };
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock';
+  });
+
+  afterEach(() => {
+    config.tag_graph = { ...original };
+    if (originalProvider === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = originalProvider;
+  });
+
+  it('relates each chunk only to its own bounded vocabulary', async () => {
+    config.tag_graph = { ...original, chunk_size: 5, max_vocabulary: 8 };
+    const tags = Array.from({ length: 20 }, (_, i) => `tag-${i}`);
+
+    const { graph, coverage } = await buildTagGraphWithLLM(tags);
+
+    assert.equal(coverage.chunks, 4);
+    assert.equal(coverage.coverage, 1);
+    for (let i = 0; i < tags.length; i += 5) {
+      const chunk = tags.slice(i, i + 5);
+      const vocabulary = new Set(selectChunkVocabulary(chunk, tags, new Map(), 8));
+      for (const tag of chunk) {
+        for (const edge of graph.get(tag)!) {
+          assert.ok(vocabulary.has(edge.tag), `${tag} → ${edge.tag} is outside its chunk vocabulary`);
+          assert.notEqual(edge.tag, tag);
+        }
+      }
+    }
+  });
+});